@@ -0,0 +1,149 @@
+/**
+ * Reusable adapters that turn third-party exceptions into error set values.
+ * @module adapter
+ */
+
+import {
+  CREATE,
+  type ErrConstructor,
+  type ErrorMapper,
+  type ErrorSet,
+  type KindData,
+  type SetErr,
+} from "./types.ts"
+
+/**
+ * Options for defining an adapter.
+ *
+ * @typeParam Kinds - Error kinds of the target error set
+ * @typeParam T - Entity type of the target error set
+ */
+export type AdapterOptions<
+  Kinds extends string,
+  T extends Record<string, unknown>,
+> = {
+  /** Error set that produced errors belong to */
+  errorSet: ErrorSet<Kinds, T>
+  /** Maps a caught exception to one of the set's kinds */
+  classify: (error: Error) => NoInfer<Kinds>
+  /** Extracts context data from the exception and the call arguments */
+  extract?: (
+    error: Error,
+    args: readonly unknown[]
+  ) => NoInfer<KindData<Kinds, T>>
+  /** Builds the error message (defaults to `error.message`) */
+  message?: (error: Error) => string
+}
+
+/**
+ * Adapter returned by defineAdapter().
+ * Runs or wraps throwing code and returns error set values instead.
+ */
+export type Adapter<Kinds extends string, T extends Record<string, unknown>> = {
+  /** Error set that produced errors belong to */
+  readonly errorSet: ErrorSet<Kinds, T>
+
+  /**
+   * Run a function, converting thrown exceptions (or rejections) to errors.
+   * Async functions return a promise of the result or error.
+   */
+  run(fn: () => never): SetErr<Kinds, T>
+  run<R>(fn: () => Promise<R>): Promise<R | SetErr<Kinds, T>>
+  run<R>(fn: () => R): R | SetErr<Kinds, T>
+
+  /**
+   * Wrap a function so it returns errors instead of throwing.
+   * Call arguments are passed to `extract`.
+   */
+  wrap<Args extends unknown[]>(
+    fn: (...args: Args) => never
+  ): (...args: Args) => SetErr<Kinds, T>
+  wrap<Args extends unknown[], R>(
+    fn: (...args: Args) => Promise<R>
+  ): (...args: Args) => Promise<R | SetErr<Kinds, T>>
+  wrap<Args extends unknown[], R>(
+    fn: (...args: Args) => R
+  ): (...args: Args) => R | SetErr<Kinds, T>
+}
+
+/**
+ * Checks if a value is a promise-like (thenable) object.
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === "function"
+  )
+}
+
+/**
+ * Defines a reusable adapter for a library that throws.
+ *
+ * The adapter classifies each caught exception into one of the set's kinds,
+ * extracts context data, and creates the error through the set, keeping
+ * the exception as its `cause`. Sync functions go through
+ * `ErrorSet.capture`, async ones through `ErrorSet.captureAsync`, so the
+ * classification lives in one place instead of a mapper at every call site.
+ *
+ * @param options - Target error set, classifier and data extractor
+ * @returns An adapter with `run` and `wrap` methods
+ *
+ * @example
+ * ```ts
+ * export const sqlite = defineAdapter({
+ *   errorSet: SqliteError,
+ *   classify: (error) => {
+ *     const code = (error as { code?: string }).code
+ *     if (code === "SQLITE_CONSTRAINT") return "constraint"
+ *     if (code === "SQLITE_BUSY") return "busy"
+ *     return "unknown"
+ *   },
+ *   extract: (error, args) => ({
+ *     code: (error as { code?: string }).code,
+ *     sql: typeof args[0] === "string" ? args[0] : undefined,
+ *   }),
+ * })
+ *
+ * const rows = sqlite.run(() => db.prepare(sql).all())
+ * const query = sqlite.wrap((sql: string) => db.prepare(sql).all())
+ * ```
+ */
+export function defineAdapter<
+  Kinds extends string,
+  T extends Record<string, unknown>,
+>(options: AdapterOptions<Kinds, T>): Adapter<Kinds, T> {
+  const { errorSet: set, classify, extract, message } = options
+
+  // Creates the mapper for one call, so extract can see its arguments
+  const mapperFor =
+    (args: readonly unknown[]): ErrorMapper<Kinds, T> =>
+    error => {
+      const kindFn = set[classify(error)] as unknown as {
+        [CREATE]: ErrConstructor<Kinds, Record<string, unknown>>
+      }
+      return kindFn[CREATE](
+        message === undefined ? error.message : message(error),
+        extract === undefined ? {} : extract(error, args),
+        { cause: error }
+      ) as SetErr<Kinds, T>
+    }
+
+  const invoke = (fn: (...args: unknown[]) => unknown, args: unknown[]) => {
+    const mapper = mapperFor(args)
+    const result = set.capture(() => fn(...args), mapper)
+    if (isPromiseLike(result)) {
+      return set.captureAsync(async () => await result, mapper)
+    }
+    return result
+  }
+
+  return {
+    errorSet: set,
+    run: (fn: () => unknown) => invoke(fn, []),
+    wrap:
+      (fn: (...args: unknown[]) => unknown) =>
+      (...args: unknown[]) =>
+        invoke(fn, args),
+  } as Adapter<Kinds, T>
+}
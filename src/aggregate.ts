@@ -0,0 +1,167 @@
+/**
+ * Aggregate errors: many failures (e.g., from validation) in one value.
+ * @module aggregate
+ */
+
+import type { ErrOf, OkOf } from "./result.ts"
+import { markInternal } from "./stack.ts"
+import {
+  CREATE,
+  type Err,
+  type ErrConstructor,
+  errorSet,
+  isErr,
+  withPath,
+} from "./types.ts"
+
+/**
+ * Data of an aggregate error: the collected failures, each with a `path`.
+ *
+ * @typeParam E - Type of the collected errors
+ */
+export type AggregateData<E extends Err = Err> = {
+  errors: readonly E[]
+}
+
+/**
+ * Error holding many errors, such as every failure of a form or a bulk
+ * import. Created by `collect()`.
+ *
+ * @typeParam E - Type of the collected errors
+ */
+export type ErrAggregate<E extends Err = Err> = Err<
+  "aggregate",
+  AggregateData<E>
+>
+
+/**
+ * Error set of aggregate errors. Use it as a guard
+ * (`ErrAggregate(value)`) and for handling
+ * (`ErrAggregate.recover(value, { aggregate: e => ... })`).
+ */
+export const ErrAggregate = errorSet("ErrAggregate", [
+  "aggregate",
+]).initPerKind<{ aggregate: AggregateData }>()
+
+/**
+ * Success values of a collect() call, by key or index.
+ */
+export type CollectOk<C> = {
+  -readonly [K in keyof C]: OkOf<Resolved<C[K]>>
+}
+
+/**
+ * Error types collected by a collect() call.
+ */
+export type CollectErr<C> = C extends readonly unknown[]
+  ? ErrOf<Resolved<C[number]>>
+  : ErrOf<Resolved<C[keyof C]>>
+
+/**
+ * Value of a check: the result itself, or the result of a validator.
+ * Callable errors are functions, but are results, not validators.
+ */
+type Resolved<C> = C extends Err ? C : C extends () => infer R ? R : C
+
+/**
+ * Joins a parent path and a child path: `items` + `[3]` is `items[3]`,
+ * `items[3]` + `email` is `items[3].email`.
+ */
+function joinPath(parent: string, child: string): string {
+  if (parent === "" || child.startsWith("[")) {
+    return `${parent}${child}`
+  }
+  return `${parent}.${child}`
+}
+
+/**
+ * Copies an error with a path. Descendants of a nested aggregate carry
+ * paths relative to it, so they get the same prefix, and every error
+ * ends up with its full path.
+ */
+function placeAt(err: Err, path: string, prefix: string): Err {
+  if (!ErrAggregate.aggregate.strict(err)) {
+    return withPath(err, path)
+  }
+  const errors = err.data.errors.map(child =>
+    placeAt(
+      child,
+      child.path === undefined ? prefix : joinPath(prefix, child.path),
+      prefix
+    )
+  )
+  return withPath(err, path, { errors })
+}
+
+/**
+ * Builds an aggregate error from errors that already carry their paths.
+ *
+ * @param errors - Collected errors
+ * @returns Aggregate error with a count message
+ */
+function aggregate<E extends Err>(errors: readonly E[]): ErrAggregate<E> {
+  const create = (
+    ErrAggregate.aggregate as unknown as {
+      [CREATE]: ErrConstructor<"aggregate", AggregateData<E>>
+    }
+  )[CREATE]
+  const count = errors.length
+  return create(`${count} error${count === 1 ? "" : "s"}`, {
+    errors,
+  }) as ErrAggregate<E>
+}
+
+/**
+ * Runs every check and gathers every failure, instead of stopping at the
+ * first one.
+ *
+ * Checks are result values or validators (functions, which are called).
+ * Callable errors (e.g., ``UserError.invalid`Bad email` ``) are results.
+ * Object keys and array indices become paths: `{ email }` gives `email`,
+ * `[a, b]` gives `[0]` and `[1]`. Nested collect() calls give full paths
+ * such as `items[3].email`.
+ *
+ * @param checks - Object or array of results or validators
+ * @returns The success values, or an aggregate of every error
+ *
+ * @example
+ * ```ts
+ * const result = collect({
+ *   email: validateEmail(form.email),
+ *   name: () => validateName(form.name),
+ *   items: collect(form.items.map(validateItem)),
+ * })
+ *
+ * if (ErrAggregate(result)) {
+ *   for (const err of result.data.errors) {
+ *     console.log(err.path, err.message) // "items[3].qty", "..."
+ *   }
+ * }
+ * ```
+ */
+export function collect<
+  const C extends Readonly<Record<string, unknown>> | readonly unknown[],
+>(checks: C): CollectOk<C> | ErrAggregate<CollectErr<C>> {
+  const isList = Array.isArray(checks)
+  const values = (isList ? [] : {}) as Record<string, unknown>
+  const errors: Err[] = []
+
+  for (const [key, check] of Object.entries(checks)) {
+    const value: unknown =
+      typeof check === "function" && !isErr(check) ? check() : check
+    if (isErr(value)) {
+      const path = isList ? `[${key}]` : key
+      errors.push(placeAt(value, path, path))
+    } else {
+      values[key] = value
+    }
+  }
+
+  if (errors.length > 0) {
+    return aggregate(errors) as ErrAggregate<CollectErr<C>>
+  }
+  return values as CollectOk<C>
+}
+
+// Frames of aggregation, dropped by the internal stack filter
+markInternal(import.meta.url, [collect, aggregate])
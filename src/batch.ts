@@ -0,0 +1,210 @@
+/**
+ * Helpers for batches of results: partitioning, grouping and settling.
+ * @module batch
+ */
+
+import type { ErrOf, OkOf } from "./result.ts"
+import {
+  captureAsync,
+  type Err,
+  type ErrorMapper,
+  isErr,
+  type SetErr,
+} from "./types.ts"
+
+/**
+ * Narrows an error type to one kind, keeping its data type.
+ * Works for per-kind unions and for errors with a union of kinds.
+ */
+export type ErrOfKind<E, K extends string> = E extends Err
+  ? K extends E["kind"]
+    ? Err<K, E["data"]>
+    : never
+  : never
+
+/**
+ * Errors grouped by kind, as returned by groupByKind().
+ * Only kinds that occurred are present.
+ */
+export type ErrorsByKind<E extends Err> = {
+  [K in E["kind"]]?: ErrOfKind<E, K>[]
+}
+
+/**
+ * A guard with the kinds it accepts, such as an error set or merged set.
+ */
+export type KindsGuard<E extends Err, Kinds extends string> = ((
+  value: unknown
+) => value is E) & {
+  readonly kinds: readonly Kinds[]
+}
+
+/**
+ * A task for settleAll(): a promise, or a function that starts the work.
+ */
+export type SettleTask<V> = PromiseLike<V> | (() => V | PromiseLike<V>)
+
+/**
+ * Options for settleAll().
+ */
+export type SettleOptions = {
+  /**
+   * Maximum number of function tasks running at once (default: no limit).
+   * Promise tasks are already running and are only awaited.
+   */
+  concurrency?: number
+}
+
+/**
+ * Splits results into success values and errors, keeping their order.
+ *
+ * Without a guard, every error is separated. With a guard (e.g., an error
+ * set), only the errors it matches are; other values, including errors of
+ * other sets, stay with the successes.
+ *
+ * @param values - Results to split
+ * @param guard - Optional guard selecting the errors to separate
+ * @returns Tuple of `[successes, errors]`
+ *
+ * @example
+ * ```ts
+ * const [users, errors] = partition(ids.map(getUser))
+ * // users: User[], errors: UserError[]
+ *
+ * const [rest, dbErrors] = partition(results, DbError)
+ * // rest: (User | UserError)[], dbErrors: DbError[]
+ * ```
+ */
+export function partition<V>(values: Iterable<V>): [OkOf<V>[], ErrOf<V>[]]
+export function partition<V, E extends Err>(
+  values: Iterable<V>,
+  guard: (value: unknown) => value is E
+): [Exclude<V, E>[], Extract<V, E>[]]
+export function partition<V>(
+  values: Iterable<V>,
+  guard: (value: unknown) => boolean = isErr
+): [unknown[], unknown[]] {
+  const ok: unknown[] = []
+  const errors: unknown[] = []
+  for (const value of values) {
+    if (guard(value)) {
+      errors.push(value)
+    } else {
+      ok.push(value)
+    }
+  }
+  return [ok, errors]
+}
+
+/**
+ * Groups errors by kind, keeping their order within each kind.
+ *
+ * Without a set, only kinds that occurred are present. With a set (or a
+ * merged set), every one of its `kinds` is present (empty if none
+ * occurred), and values the set does not match are skipped.
+ *
+ * @param errors - Errors to group
+ * @param set - Optional set whose kinds key the result
+ * @returns Record from kind to the errors of that kind
+ *
+ * @example
+ * ```ts
+ * const [, errors] = partition(results)
+ * const byKind = groupByKind(errors, UserError)
+ * byKind.not_found.length  // every kind is present
+ * ```
+ */
+export function groupByKind<E extends Err>(errors: Iterable<E>): ErrorsByKind<E>
+export function groupByKind<E extends Err, Kinds extends string>(
+  errors: Iterable<unknown>,
+  set: KindsGuard<E, Kinds>
+): { [K in Kinds]: ErrOfKind<E, K>[] }
+export function groupByKind(
+  errors: Iterable<unknown>,
+  set?: KindsGuard<Err, string>
+): Record<string, Err[]> {
+  const matches: (value: unknown) => value is Err = set ?? isErr
+  const groups: Record<string, Err[]> = {}
+  for (const kind of set?.kinds ?? []) {
+    groups[kind] = []
+  }
+  for (const error of errors) {
+    if (matches(error)) {
+      groups[error.kind] ??= []
+      groups[error.kind]?.push(error)
+    }
+  }
+  return groups
+}
+
+/**
+ * Awaits many tasks and returns every result in order, like
+ * `Promise.allSettled`, but as `T | Err` values.
+ *
+ * Rejections are converted with the mapper, like captureAsync() (a
+ * rejected `ErrorSetException` gives its original error, from any set). Function tasks
+ * are started lazily, so `concurrency` limits how many run at once.
+ *
+ * @param tasks - Promises, or functions that start the work
+ * @param mapper - Converts rejections to error set values
+ * @param options - Concurrency limit
+ * @returns Promise of the results in task order; rejects only if
+ *   `concurrency` is not a positive integer
+ *
+ * @example
+ * ```ts
+ * const results = await settleAll(
+ *   ids.map(id => () => fetchUser(id)),
+ *   e => ApiError.failed`Request failed: ${"reason"}`({ reason: e.message }),
+ *   { concurrency: 8 }
+ * )
+ * const [users, errors] = partition(results)
+ * ```
+ */
+export async function settleAll<
+  V,
+  Kinds extends string,
+  T extends Record<string, unknown>,
+>(
+  tasks: Iterable<SettleTask<V>>,
+  mapper: ErrorMapper<Kinds, T>,
+  options?: SettleOptions
+): Promise<(Awaited<V> | SetErr<Kinds, T> | Err)[]> {
+  const list = [...tasks]
+  const concurrency = options?.concurrency ?? Number.POSITIVE_INFINITY
+  if (
+    concurrency !== Number.POSITIVE_INFINITY &&
+    !(Number.isInteger(concurrency) && concurrency > 0)
+  ) {
+    throw new Error(
+      `Invalid concurrency ${concurrency}: expected a positive integer`
+    )
+  }
+
+  // Promises are already running: mark them handled so a rejection
+  // waiting for its turn is not reported as unhandled
+  for (const task of list) {
+    if (typeof task !== "function") {
+      Promise.resolve(task).catch(() => undefined)
+    }
+  }
+
+  const results: (Awaited<V> | SetErr<Kinds, T> | Err)[] = new Array(
+    list.length
+  )
+  let next = 0
+  const worker = async (): Promise<void> => {
+    while (next < list.length) {
+      const index = next++
+      const task = list[index] as SettleTask<V>
+      results[index] = await captureAsync(
+        async () => await (typeof task === "function" ? task() : task),
+        mapper
+      )
+    }
+  }
+
+  const workers = Math.min(concurrency, list.length)
+  await Promise.all(Array.from({ length: workers }, worker))
+  return results
+}
@@ -0,0 +1,143 @@
+/**
+ * Traversal of cause chains across error set values and native errors.
+ * @module cause
+ */
+
+import type { Err } from "./types.ts"
+
+/**
+ * Options for cause-chain traversal.
+ */
+export type CauseOptions = {
+  /** Maximum number of causes to follow (default: 100) */
+  maxDepth?: number
+}
+
+/** Default limit on the number of causes followed */
+const DEFAULT_MAX_DEPTH = 100
+
+/**
+ * Reads the `cause` of an error set value, native error or other object.
+ * Callable errors are functions, so both objects and functions are read.
+ */
+function causeOf(value: unknown): unknown {
+  if (
+    (typeof value === "object" && value !== null) ||
+    typeof value === "function"
+  ) {
+    return (value as { cause?: unknown }).cause
+  }
+  return undefined
+}
+
+/**
+ * Iterates over the cause chain of an error, nearest cause first.
+ *
+ * Follows `cause` through error set values and native errors alike.
+ * The error itself is not included. Stops at a cycle or after
+ * `maxDepth` causes.
+ *
+ * @param err - Error whose causes to walk
+ * @param options - Traversal limits
+ * @returns Iterator over each cause in the chain
+ *
+ * @example
+ * ```ts
+ * for (const cause of causes(err)) {
+ *   console.log(isErr(cause) ? cause.kind : cause)
+ * }
+ * ```
+ */
+export function* causes(
+  err: Err | Error,
+  options?: CauseOptions
+): Generator<unknown, void, undefined> {
+  const maxDepth = options?.maxDepth ?? DEFAULT_MAX_DEPTH
+  const seen = new Set<unknown>([err])
+  let current = causeOf(err)
+  let depth = 0
+
+  while (current !== undefined && !seen.has(current) && depth < maxDepth) {
+    yield current
+    seen.add(current)
+    depth++
+    current = causeOf(current)
+  }
+}
+
+/**
+ * Returns the last cause in the chain, or the error itself if it has none.
+ *
+ * @param err - Error whose chain to walk
+ * @param options - Traversal limits
+ * @returns The deepest reachable cause
+ *
+ * @example
+ * ```ts
+ * const root = rootCause(err)
+ * if (DbError.timeout(root)) retryLater()
+ * ```
+ */
+export function rootCause(err: Err | Error, options?: CauseOptions): unknown {
+  let root: unknown = err
+  for (const cause of causes(err, options)) {
+    root = cause
+  }
+  return root
+}
+
+/**
+ * Finds the first cause in the chain that passes a guard.
+ * The error itself is not checked.
+ *
+ * @param err - Error whose chain to search
+ * @param guard - Type guard such as a set- or kind-level guard
+ * @param options - Traversal limits
+ * @returns The first matching cause, narrowed by the guard, or undefined
+ *
+ * @example
+ * ```ts
+ * const timeout = findCause(err, DbError.timeout)
+ * if (timeout) log(timeout.data.query)
+ * ```
+ */
+export function findCause<C>(
+  err: Err | Error,
+  guard: (value: unknown) => value is C,
+  options?: CauseOptions
+): C | undefined {
+  for (const cause of causes(err, options)) {
+    if (guard(cause)) {
+      return cause
+    }
+  }
+  return undefined
+}
+
+/**
+ * Checks if any cause in the chain passes a guard.
+ * The error itself is not checked.
+ *
+ * @param err - Error whose chain to search
+ * @param guard - Guard such as `DbError.timeout` or `DbError`
+ * @param options - Traversal limits
+ * @returns `true` if a matching cause exists
+ *
+ * @example
+ * ```ts
+ * // Was this ultimately a db timeout?
+ * if (hasCause(err, DbError.timeout)) return status(503)
+ * ```
+ */
+export function hasCause(
+  err: Err | Error,
+  guard: (value: unknown) => boolean,
+  options?: CauseOptions
+): boolean {
+  for (const cause of causes(err, options)) {
+    if (guard(cause)) {
+      return true
+    }
+  }
+  return false
+}
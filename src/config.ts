@@ -3,6 +3,9 @@
  * @module config
  */
 
+import type { StackFilter } from "./stack.ts"
+import type { Err } from "./types.ts"
+
 /**
  * Output format for error messages.
  * - "pretty": Human-readable format with colors (development)
@@ -11,6 +14,54 @@
  */
 export type Format = "pretty" | "json" | "minimal"
 
+/**
+ * Representation of error timestamps.
+ * - "epoch": Milliseconds since the Unix epoch (number)
+ * - "iso": ISO 8601 string (e.g., "2024-01-04T19:06:40.000Z")
+ */
+export type TimestampFormat = "epoch" | "iso"
+
+/**
+ * Time source used to stamp errors.
+ * Returns milliseconds since the Unix epoch, like `Date.now`.
+ */
+export type Clock = () => number
+
+/**
+ * Rule selecting data fields to redact.
+ * - Field name (e.g., "email"): matches the field at any depth
+ * - Dotted path (e.g., "user.email"): matches that path from the data root
+ * - Predicate: receives the dotted path and value of every field
+ */
+export type RedactRule = string | ((path: string, value: unknown) => boolean)
+
+/**
+ * Replacement for redacted values.
+ * - "mask": the string "[REDACTED]"
+ * - "hash": a short, stable hash (e.g., "[hash:9e7a1c2f]") so equal values
+ *   can be correlated across logs. Not a cryptographic hash.
+ */
+export type RedactStyle = "mask" | "hash"
+
+/**
+ * Callbacks observing errors, e.g., to feed metrics or error reporters.
+ *
+ * Hooks only observe: errors are frozen before hooks see them, their
+ * return values are ignored, and exceptions they throw are swallowed so
+ * reporting never breaks the calling code.
+ */
+export type Hooks = {
+  /** Called with every error created by a kind function */
+  onCreate?: (err: Err) => void
+  /** Called when recover() handles an error, before its handler runs */
+  onRecover?: (err: Err) => void
+  /**
+   * Called when capture() or captureAsync() turns an exception into an
+   * error, with the thrown value
+   */
+  onCapture?: (err: Err, thrown: unknown) => void
+}
+
 /**
  * Configuration options for the errorset library.
  */
@@ -21,10 +72,30 @@ export type Config = {
   includeStack: boolean
   /** Include timestamp when error was created */
   includeTimestamp: boolean
+  /** Representation of the timestamp when includeTimestamp is true */
+  timestampFormat: TimestampFormat
+  /** Time source for timestamps (inject a fixed clock in tests) */
+  clock: Clock
   /** Enable ANSI colors in pretty format */
   colors: boolean
   /** Maximum stack trace depth when includeStack is true */
   stackDepth: number
+  /** Frames to drop from stack traces (merged with the layers below) */
+  stackFilter: StackFilter
+  /**
+   * Map stack frames to original sources through local `.map` files
+   * (Bun and Node.js 20.16+; no effect on older Node.js versions)
+   */
+  sourceMaps: boolean
+  /** Data fields to redact (rules of each layer add to the ones below) */
+  redact: readonly RedactRule[]
+  /** Replacement for redacted values */
+  redactStyle: RedactStyle
+  /**
+   * Observers of errors. Hooks of each layer run after the ones below
+   * (global, then per-set, scoped and per-call)
+   */
+  hooks: Hooks
 }
 
 /**
@@ -36,52 +107,145 @@ const defaultConfig: Config = {
   format: "pretty",
   includeStack: false,
   includeTimestamp: false,
+  timestampFormat: "epoch",
+  clock: Date.now,
   colors: true,
   stackDepth: 10,
+  stackFilter: {},
+  sourceMaps: false,
+  redact: [],
+  redactStyle: "mask",
+  hooks: {},
+}
+
+/** Global configuration layer, replaced (never mutated) by setGlobalConfig() */
+let globalConfig: Readonly<Config> = Object.freeze({ ...defaultConfig })
+
+/**
+ * Source of the async-scoped configuration layer, installed by the
+ * `context` module so this module does not depend on `node:async_hooks`.
+ */
+let scopeSource: () => Partial<Config> | undefined = () => undefined
+
+/**
+ * Installs the source of the async-scoped configuration layer.
+ *
+ * @param source - Returns the overrides of the current scope, if any
+ * @internal
+ */
+export function setConfigScopeSource(
+  source: () => Partial<Config> | undefined
+): void {
+  scopeSource = source
 }
 
-/** Global configuration state */
-let currentConfig: Config = { ...defaultConfig }
+/** Hook functions, called with the arguments of their event */
+type Hook = (...args: unknown[]) => void
+
+/**
+ * Combines two layers of hooks: for each event, the hook below runs
+ * first, then the layer's. A throwing hook does not stop the other.
+ */
+function combineHooks(base: Hooks, overrides: Hooks): Hooks {
+  const combined: Record<string, Hook | undefined> = {
+    ...(base as Record<string, Hook | undefined>),
+    ...(overrides as Record<string, Hook | undefined>),
+  }
+  for (const event of Object.keys(base) as (keyof Hooks)[]) {
+    const first = base[event] as Hook | undefined
+    const second = overrides[event] as Hook | undefined
+    if (first && second) {
+      combined[event] = (...args) => {
+        for (const hook of [first, second]) {
+          try {
+            hook(...args)
+          } catch {
+            // Reporting must never break the code that produced the error
+          }
+        }
+      }
+    }
+  }
+  return combined
+}
 
 /**
- * Configure the errorset library behavior.
+ * Applies a layer of overrides to a configuration. Redaction rules and
+ * hooks add to the ones below and stack filter options merge with them;
+ * other options replace.
  *
- * @param options - Partial configuration to merge with current settings
+ * @param base - Configuration (or overrides) below the layer
+ * @param overrides - Overrides of the layer, if any
+ * @returns Frozen merged configuration, or `base` when there is no layer
+ * @internal
+ */
+export function mergeConfig<C extends Partial<Config>>(
+  base: C,
+  overrides: Partial<Config> | undefined
+): C {
+  if (overrides === undefined) {
+    return base
+  }
+  return Object.freeze({
+    ...base,
+    ...overrides,
+    ...(base.redact &&
+      overrides.redact && { redact: [...base.redact, ...overrides.redact] }),
+    ...(base.stackFilter &&
+      overrides.stackFilter && {
+        stackFilter: { ...base.stackFilter, ...overrides.stackFilter },
+      }),
+    ...(base.hooks &&
+      overrides.hooks && { hooks: combineHooks(base.hooks, overrides.hooks) }),
+  })
+}
+
+/**
+ * Resolves the effective configuration for an error from its layers:
+ * global, then per-set `init(config)`, then the `withConfig()` scope,
+ * then the per-call `config` option. Later layers win.
  *
- * @example
- * ```ts
- * // Development configuration
- * configure({
- *   format: "pretty",
- *   colors: true,
- *   includeStack: true,
- * })
+ * @param setConfig - Per-set overrides
+ * @param callConfig - Per-call overrides
+ * @returns The effective configuration at the current scope
+ * @internal
+ */
+export function resolveConfig(
+  setConfig?: Partial<Config>,
+  callConfig?: Partial<Config>
+): Readonly<Config> {
+  const scoped = mergeConfig(
+    mergeConfig(globalConfig, setConfig),
+    scopeSource()
+  )
+  return mergeConfig(scoped, callConfig)
+}
+
+/**
+ * Replaces the global configuration layer with a copy that includes the
+ * options. The options are not validated; see configure().
  *
- * // Production configuration
- * configure({
- *   format: "json",
- *   includeTimestamp: true,
- * })
- * ```
- */
-export function configure(options: Partial<Config>): void {
-  currentConfig = { ...currentConfig, ...options }
+ * @param options - Validated partial configuration
+ * @internal
+ */
+export function setGlobalConfig(options: Partial<Config>): void {
+  globalConfig = Object.freeze({ ...globalConfig, ...options })
 }
 
 /**
- * Get the current configuration.
- * Used internally by error creation functions.
+ * Get the effective configuration at the current scope: the global
+ * configuration with the overrides of any enclosing `withConfig()`.
  *
- * @returns The current configuration object
+ * @returns The effective configuration (frozen)
  */
 export function getConfig(): Readonly<Config> {
-  return currentConfig
+  return mergeConfig(globalConfig, scopeSource())
 }
 
 /**
- * Reset configuration to defaults.
- * Primarily useful for testing.
+ * Reset the global configuration to defaults.
+ * Primarily useful for testing; scoped overrides are not affected.
  */
 export function resetConfig(): void {
-  currentConfig = { ...defaultConfig }
+  globalConfig = Object.freeze({ ...defaultConfig })
 }
@@ -0,0 +1,330 @@
+/**
+ * Validated global configuration, from code or environment variables.
+ * @module configure
+ */
+
+import { type Config, setGlobalConfig } from "./config.ts"
+import { errorSet } from "./types.ts"
+
+/**
+ * Error set for invalid configuration.
+ * - `invalid_option`: a known option with a value of the wrong type
+ * - `unknown_option`: an option that does not exist (e.g., a typo)
+ */
+export const ConfigError = errorSet("ConfigError", [
+  "invalid_option",
+  "unknown_option",
+]).initPerKind<{
+  invalid_option: { option: string; received: string; expected: string }
+  unknown_option: { option: string }
+}>()
+
+export type ConfigError = typeof ConfigError.Type
+
+/**
+ * Runtime check of one configuration option.
+ */
+type Check = {
+  /** Description of valid values, for error messages */
+  expected: string
+  test: (value: unknown) => boolean
+}
+
+/** Names of the hooks accepted in `hooks` */
+const HOOK_NAMES = ["onCreate", "onRecover", "onCapture"]
+
+/** Options accepted in `stackFilter` */
+const FILTER_OPTIONS = ["internal", "nodeModules", "exclude"]
+
+/** Matches the capitals of camelCase option names */
+const CAPITALS = /[A-Z]/g
+
+/** Check for boolean options */
+const BOOLEAN: Check = {
+  expected: "true or false",
+  test: value => typeof value === "boolean",
+}
+
+/**
+ * Builds the check for an option with a fixed set of string values.
+ */
+function oneOf(...values: string[]): Check {
+  return {
+    expected: values.map(value => `"${value}"`).join(" | "),
+    test: value => values.includes(value as string),
+  }
+}
+
+/**
+ * Checks if a value is a plain object.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) {
+    return false
+  }
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/** Check of every option; adding an option to Config requires one */
+const CHECKS: { readonly [K in keyof Config]: Check } = {
+  format: oneOf("pretty", "json", "minimal"),
+  includeStack: BOOLEAN,
+  includeTimestamp: BOOLEAN,
+  timestampFormat: oneOf("epoch", "iso"),
+  clock: {
+    expected: "a function returning milliseconds",
+    test: value => typeof value === "function",
+  },
+  colors: BOOLEAN,
+  stackDepth: {
+    expected: "a non-negative integer",
+    test: value => Number.isInteger(value) && (value as number) >= 0,
+  },
+  redact: {
+    expected: "an array of field names, paths or predicates",
+    test: value =>
+      Array.isArray(value) &&
+      value.every(
+        rule => typeof rule === "string" || typeof rule === "function"
+      ),
+  },
+  stackFilter: {
+    expected: "an object of internal, nodeModules and exclude options",
+    test: value =>
+      isPlainObject(value) &&
+      Object.keys(value).every(option => FILTER_OPTIONS.includes(option)) &&
+      [value.internal, value.nodeModules].every(
+        flag => flag === undefined || typeof flag === "boolean"
+      ) &&
+      (value.exclude === undefined ||
+        (Array.isArray(value.exclude) &&
+          value.exclude.every(
+            pattern => typeof pattern === "string" || pattern instanceof RegExp
+          ))),
+  },
+  sourceMaps: BOOLEAN,
+  redactStyle: oneOf("mask", "hash"),
+  hooks: {
+    expected: `an object of ${HOOK_NAMES.join(", ")} functions`,
+    test: value =>
+      isPlainObject(value) &&
+      Object.entries(value).every(
+        ([name, hook]) =>
+          HOOK_NAMES.includes(name) &&
+          (hook === undefined || typeof hook === "function")
+      ),
+  },
+}
+
+/**
+ * Parses a boolean environment variable: true/false, 1/0 or yes/no.
+ */
+function parseBoolean(raw: string): unknown {
+  const value = raw.trim().toLowerCase()
+  if (value === "true" || value === "1" || value === "yes") {
+    return true
+  }
+  if (value === "false" || value === "0" || value === "no") {
+    return false
+  }
+  return raw
+}
+
+/**
+ * Parsers of the options that can be set from environment variables.
+ * Values that cannot be parsed are returned as-is and fail their check.
+ */
+const ENV_PARSERS: { readonly [K in keyof Config]?: (raw: string) => unknown } =
+  {
+    format: raw => raw,
+    includeStack: parseBoolean,
+    includeTimestamp: parseBoolean,
+    timestampFormat: raw => raw,
+    colors: parseBoolean,
+    stackDepth: raw => (raw.trim() === "" ? raw : Number(raw)),
+    sourceMaps: parseBoolean,
+    redact: raw =>
+      raw
+        .split(",")
+        .map(rule => rule.trim())
+        .filter(rule => rule !== ""),
+    redactStyle: raw => raw,
+  }
+
+/**
+ * Renders a received value for error messages. Values JSON cannot
+ * represent (bigints, cyclic objects) are described instead.
+ */
+function describe(value: unknown): string {
+  if (typeof value === "function") {
+    return "a function"
+  }
+  try {
+    return JSON.stringify(value) ?? String(value)
+  } catch {
+    return typeof value === "bigint" ? `${value}n` : "an unserializable object"
+  }
+}
+
+/**
+ * Builds the error for an option with an invalid value.
+ */
+function invalid(
+  option: string,
+  received: unknown,
+  expected: string
+): ConfigError {
+  return ConfigError.invalid_option`Invalid ${"option"}: ${"received"} (expected ${"expected"})`(
+    { option, received: describe(received), expected }
+  )
+}
+
+/**
+ * Checks one option value, naming it `option` in the error.
+ */
+function checkOption(
+  key: keyof Config,
+  value: unknown,
+  option: string,
+  received: unknown = value
+): ConfigError | undefined {
+  const { expected, test } = CHECKS[key]
+  return test(value) ? undefined : invalid(option, received, expected)
+}
+
+/**
+ * Validates configuration options, e.g., from an untyped config file.
+ * Options set to `undefined` are ignored.
+ *
+ * @param options - Options to validate
+ * @returns The first problem found, or undefined if the options are valid
+ *
+ * @example
+ * ```ts
+ * const err = validateConfig({ format: "yaml" })
+ * // ConfigError.invalid_option - Invalid format: "yaml"
+ * //   (expected "pretty" | "json" | "minimal")
+ * ```
+ */
+export function validateConfig(options: unknown): ConfigError | undefined {
+  if (!isPlainObject(options)) {
+    return invalid("options", options, "an object")
+  }
+  for (const [option, value] of Object.entries(options)) {
+    if (!Object.hasOwn(CHECKS, option)) {
+      return ConfigError.unknown_option`Unknown option ${"option"}`({ option })
+    }
+    if (value !== undefined) {
+      const err = checkOption(option as keyof Config, value, option)
+      if (err) {
+        return err
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Configure the errorset library behavior globally.
+ *
+ * Replaces the global configuration layer with a copy that includes the
+ * options. Per-set, scoped (`withConfig()`) and per-call options are
+ * layered on top of it. Invalid options are rejected as a whole: nothing
+ * is applied and the problem is returned.
+ *
+ * @param options - Partial configuration to merge with current settings
+ * @returns A `ConfigError` if an option is unknown or invalid
+ *
+ * @example
+ * ```ts
+ * // Development configuration
+ * configure({
+ *   format: "pretty",
+ *   colors: true,
+ *   includeStack: true,
+ * })
+ *
+ * // Production configuration
+ * configure({
+ *   format: "json",
+ *   includeTimestamp: true,
+ *   timestampFormat: "iso",
+ * })
+ *
+ * // Deterministic timestamps in tests
+ * configure({ includeTimestamp: true, clock: () => 0 })
+ *
+ * // Clean stack traces pointing at the TypeScript sources
+ * configure({
+ *   includeStack: true,
+ *   sourceMaps: true,
+ *   stackFilter: { exclude: [/\/vendor\//] },
+ * })
+ *
+ * // Keep personal data out of logs
+ * configure({ redact: ["email", "auth.token"], redactStyle: "hash" })
+ *
+ * // Count errors by kind
+ * configure({ hooks: { onCreate: err => metrics.increment(err.kind) } })
+ *
+ * // Options from an untyped file
+ * const err = configure(JSON.parse(file))
+ * if (ConfigError(err)) throw toError(err)
+ * ```
+ */
+export function configure(options: Partial<Config>): ConfigError | undefined {
+  const err = validateConfig(options)
+  if (err) {
+    return err
+  }
+  setGlobalConfig(
+    Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    )
+  )
+  return undefined
+}
+
+/**
+ * Configures the library from environment variables, so deployments can
+ * change the output without code changes.
+ *
+ * Each option is read from `ERRORSET_` and its name in upper snake case:
+ * `ERRORSET_FORMAT`, `ERRORSET_INCLUDE_STACK`, `ERRORSET_INCLUDE_TIMESTAMP`,
+ * `ERRORSET_TIMESTAMP_FORMAT`, `ERRORSET_COLORS`, `ERRORSET_STACK_DEPTH`,
+ * `ERRORSET_SOURCE_MAPS`, `ERRORSET_REDACT` (comma-separated) and
+ * `ERRORSET_REDACT_STYLE`.
+ * Booleans accept true/false, 1/0 and yes/no. Unset and empty variables
+ * are ignored.
+ *
+ * @param env - Environment variables (default: `process.env`)
+ * @returns A `ConfigError` naming the variable if a value is invalid;
+ *   nothing is applied in that case
+ *
+ * @example
+ * ```ts
+ * // ERRORSET_FORMAT=json ERRORSET_INCLUDE_TIMESTAMP=1 node server.js
+ * const err = configureFromEnv()
+ * if (err) console.warn(String(err))
+ * ```
+ */
+export function configureFromEnv(
+  env: Readonly<Record<string, string | undefined>> = globalThis.process?.env ??
+    {}
+): ConfigError | undefined {
+  const options: Record<string, unknown> = {}
+  for (const [key, parse] of Object.entries(ENV_PARSERS)) {
+    const name = `ERRORSET_${key.replace(CAPITALS, "_$&").toUpperCase()}`
+    const raw = env[name]
+    if (raw !== undefined && raw !== "") {
+      const value = parse(raw)
+      const err = checkOption(key as keyof Config, value, name, raw)
+      if (err) {
+        return err
+      }
+      options[key] = value
+    }
+  }
+  return configure(options)
+}
@@ -0,0 +1,92 @@
+/**
+ * Async scopes: context attached to every error created in a scope, and
+ * configuration overrides for a scope.
+ * Available as `@takinprofit/errorset/context` (Node and Bun).
+ * @module context
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks"
+import { type Config, mergeConfig, setConfigScopeSource } from "./config.ts"
+import { markInternal } from "./stack.ts"
+import { setContextSource } from "./types.ts"
+
+/**
+ * Context fields attached to errors, such as correlation, tenant and
+ * user IDs.
+ */
+export type ErrorContext = Record<string, unknown>
+
+/** Context of the current async scope */
+const storage = new AsyncLocalStorage<Readonly<ErrorContext>>()
+
+/** Configuration overrides of the current async scope */
+const configStorage = new AsyncLocalStorage<Readonly<Partial<Config>>>()
+
+setContextSource(() => storage.getStore())
+setConfigScopeSource(() => configStorage.getStore())
+
+// Frames of scopes, dropped by the internal stack filter
+markInternal(import.meta.url, [withErrorContext, withConfig])
+
+/**
+ * Runs a function in a context scope. Every error created inside it,
+ * synchronously or after an `await`, carries the context in its
+ * `context` field, apart from its `data`.
+ *
+ * Nested scopes merge with the enclosing one; inner fields win.
+ * Context fields are redacted with the same rules as data.
+ *
+ * @param context - Fields to attach to errors
+ * @param fn - Function to run in the scope
+ * @returns The function's return value (a promise for async functions)
+ *
+ * @example
+ * ```ts
+ * app.use((req, res, next) =>
+ *   withErrorContext({ requestId: req.id, tenant: req.tenant }, next)
+ * )
+ *
+ * // Anywhere below, sync or async:
+ * const err = UserError.not_found`User ${"id"} not found`({ id })
+ * err.context // { requestId: "...", tenant: "..." }
+ * ```
+ */
+export function withErrorContext<R>(context: ErrorContext, fn: () => R): R {
+  return storage.run({ ...storage.getStore(), ...context }, fn)
+}
+
+/**
+ * Returns the context of the current scope.
+ *
+ * @returns The merged context, or an empty object outside any scope
+ */
+export function getErrorContext(): Readonly<ErrorContext> {
+  return storage.getStore() ?? {}
+}
+
+/**
+ * Runs a function with configuration overrides. They apply to everything
+ * in the scope, synchronously or after an `await`, without touching the
+ * global configuration, so parallel tests and tenants can differ.
+ *
+ * The scope sits between the per-set configuration (`init(config)`) and
+ * the per-call `config` option. Nested scopes merge; redaction rules and
+ * hooks add to the ones below.
+ *
+ * @param options - Configuration overrides for the scope
+ * @param fn - Function to run in the scope
+ * @returns The function's return value (a promise for async functions)
+ *
+ * @example
+ * ```ts
+ * test("renders stack traces", () =>
+ *   withConfig({ includeStack: true, colors: false }, () => {
+ *     expect(String(UserError.invalid`Invalid`)).toContain("at ")
+ *   })
+ * )
+ * ```
+ */
+export function withConfig<R>(options: Partial<Config>, fn: () => R): R {
+  const outer = configStorage.getStore() ?? {}
+  return configStorage.run(mergeConfig(outer, options), fn)
+}
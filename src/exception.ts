@@ -0,0 +1,107 @@
+/**
+ * Bridge from error set values to native thrown `Error` instances.
+ * @module exception
+ */
+
+import type { OkOf } from "./result.ts"
+import { type Err, isErr } from "./types.ts"
+
+/**
+ * Native `Error` wrapping an error set value, for code that only
+ * understands thrown exceptions (test runners, job schedulers, RPC layers).
+ *
+ * Keeps the set name, kind and data, and maps the `cause` chain onto
+ * native `Error.cause` (error set causes are converted, foreign causes
+ * are kept as-is). The original value is available as `err`, and
+ * `capture`/`captureAsync` return it when this exception is thrown
+ * inside them.
+ *
+ * @typeParam E - The wrapped error type
+ */
+export class ErrorSetException<E extends Err = Err> extends Error {
+  /** The original error set value */
+  readonly err: E
+  /** Name of the error set that created the error */
+  readonly set: string
+  /** The error kind/tag */
+  readonly kind: E["kind"]
+  /** Extracted context data */
+  readonly data: E["data"]
+
+  constructor(err: E, message: string = err.message) {
+    super(
+      message,
+      err.cause === undefined
+        ? undefined
+        : { cause: isErr(err.cause) ? toError(err.cause) : err.cause }
+    )
+    this.name = "ErrorSetException"
+    this.err = err
+    this.set = err.set
+    this.kind = err.kind
+    this.data = err.data
+  }
+}
+
+/**
+ * Converts an error set value to a throwable `ErrorSetException`.
+ *
+ * @param err - Error to convert
+ * @returns Native error with `set`, `kind`, `data` and a native cause chain
+ * @throws {Error} If the value is not an error set value
+ *
+ * @example
+ * ```ts
+ * const result = getUser(id)
+ * if (UserError(result)) throw toError(result)
+ * ```
+ */
+export function toError<E extends Err>(err: E): ErrorSetException<E> {
+  if (!isErr(err)) {
+    throw new Error("Cannot convert a value that is not an error set value")
+  }
+  return new ErrorSetException(err)
+}
+
+/**
+ * Returns the success value, or throws the error as an `ErrorSetException`.
+ *
+ * @param value - The result value (success or error)
+ * @returns The success value
+ * @throws {ErrorSetException} If the value is an error
+ *
+ * @example
+ * ```ts
+ * test("loads the user", () => {
+ *   const user = unwrap(getUser("123"))
+ *   expect(user.name).toBe("John")
+ * })
+ * ```
+ */
+export function unwrap<V>(value: V): OkOf<V> {
+  if (isErr(value)) {
+    throw toError(value)
+  }
+  return value as OkOf<V>
+}
+
+/**
+ * Like unwrap, but prefixes the thrown message with context.
+ *
+ * @param value - The result value (success or error)
+ * @param message - Context for the failure (e.g., what was expected)
+ * @returns The success value
+ * @throws {ErrorSetException} If the value is an error
+ *
+ * @example
+ * ```ts
+ * const config = expect(loadConfig(), "config must load at startup")
+ * // throws "config must load at startup: File config.json not found"
+ * ```
+ */
+export function expect<V>(value: V, message: string): OkOf<V> {
+  if (isErr(value)) {
+    throw new ErrorSetException(value, `${message}: ${value.message}`)
+  }
+  return value as OkOf<V>
+}
@@ -0,0 +1,217 @@
+/**
+ * Rendering of error set values in the configured output format.
+ * @module format
+ */
+
+import { causes } from "./cause.ts"
+import { type Format, getConfig } from "./config.ts"
+import {
+  convertChain,
+  type SerializedForeignCause,
+  serializeForeignCause,
+} from "./serialize.ts"
+import { formatFrame, type StackFrame } from "./stack.ts"
+import { type Err, isErr } from "./types.ts"
+
+/**
+ * Options for rendering an error.
+ * Unset options fall back to the global configuration.
+ */
+export type FormatOptions = {
+  /** Output format to render */
+  format?: Format
+  /** Enable ANSI colors (pretty format only) */
+  colors?: boolean
+  /** Error set name shown in pretty output (defaults to `err.set`) */
+  name?: string
+}
+
+/**
+ * Plain object representation of an error, as emitted by the json format
+ * and by `JSON.stringify(err)`.
+ */
+export type ErrJson = {
+  path?: string
+  kind: string
+  message: string
+  data: Record<string, unknown>
+  context?: Record<string, unknown>
+  timestamp?: number | string
+  stack?: string
+  frames?: StackFrame[]
+  cause?: ErrJson | SerializedForeignCause<ErrJson>
+}
+
+/** ANSI escape sequences used by the pretty format */
+const ansi = {
+  reset: "\u001b[0m",
+  bold: "\u001b[1m",
+  dim: "\u001b[2m",
+  red: "\u001b[31m",
+} as const
+
+/** Wraps text in an ANSI style when colors are enabled */
+function paint(text: string, style: string, colors: boolean): string {
+  return colors ? `${style}${text}${ansi.reset}` : text
+}
+
+/**
+ * Extracts the "at ..." lines from a captured stack trace.
+ * Structured frames are preferred, with paths relative to the working
+ * directory; otherwise the header line (e.g., "Error") is dropped.
+ */
+function stackLines(err: Err): string[] {
+  if (err.frames !== undefined) {
+    const cwd = globalThis.process?.cwd?.()
+    return err.frames.map(frame => `at ${formatFrame(frame, cwd)}`)
+  }
+  if (err.stack === undefined) {
+    return []
+  }
+  return err.stack
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line.startsWith("at "))
+}
+
+/**
+ * Returns the children of an aggregate error (an `aggregate` kind holding
+ * `errors`), or undefined for other errors.
+ */
+function childrenOf(err: Err): readonly Err[] | undefined {
+  const { errors } = err.data
+  if (
+    err.kind !== "aggregate" ||
+    !Array.isArray(errors) ||
+    !errors.every(child => isErr(child))
+  ) {
+    return undefined
+  }
+  return errors
+}
+
+/**
+ * Converts an error (and its cause chain) to its plain JSON representation.
+ * Children of aggregate errors are converted recursively, and the cause
+ * chain continues through native errors' own causes. Structured stack
+ * frames are emitted as a `frames` array in place of `stack`.
+ *
+ * @param err - Error to convert
+ * @returns JSON-safe object with kind, message, data and optional fields
+ *
+ * @internal
+ */
+export function toJsonObject(err: Err): ErrJson {
+  return convertChain<ErrJson>(err, link => {
+    const children = childrenOf(link)
+    return {
+      ...(link.path !== undefined && { path: link.path }),
+      kind: link.kind,
+      message: link.message,
+      data: children
+        ? { ...link.data, errors: children.map(child => toJsonObject(child)) }
+        : { ...link.data },
+      ...(link.context !== undefined && { context: { ...link.context } }),
+      ...(link.timestamp !== undefined && { timestamp: link.timestamp }),
+      ...(link.frames === undefined
+        ? link.stack !== undefined && { stack: link.stack }
+        : { frames: link.frames.map(frame => ({ ...frame })) }),
+    }
+  })
+}
+
+/**
+ * Renders the pretty format: a colored header line followed by
+ * indented stack frames, aggregate children and the cause chain.
+ * The chain continues through native errors' own causes.
+ */
+function renderPretty(err: Err, colors: boolean, name = err.set): string {
+  const lines = [renderLink(err, colors, name)]
+  for (const cause of causes(err)) {
+    const rendered = isErr(cause)
+      ? renderLink(cause, colors, cause.set)
+      : renderForeignCause(cause)
+    lines.push(`  ${paint("caused by:", ansi.dim, colors)} ${rendered}`)
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Renders one error of a chain, without its cause: the header line
+ * followed by aggregate children and stack frames.
+ */
+function renderLink(err: Err, colors: boolean, name: string): string {
+  const label = name ? `${name}.${err.kind}` : err.kind
+  const children = childrenOf(err)
+  let header = `${paint(label, ansi.bold + ansi.red, colors)} - ${err.message}`
+  if (!children && Object.keys(err.data).length > 0) {
+    header += ` ${paint(JSON.stringify(err.data), ansi.dim, colors)}`
+  }
+
+  const lines = [header]
+  for (const child of children ?? []) {
+    const prefix = child.path === undefined ? "" : `${child.path}: `
+    const rendered = renderPretty(child, colors).replaceAll("\n", "\n  ")
+    lines.push(`  ${paint(prefix, ansi.dim, colors)}${rendered}`)
+  }
+  for (const frame of stackLines(err)) {
+    lines.push(paint(`  ${frame}`, ansi.dim, colors))
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Renders a cause that is not an error set value as `Name: message`.
+ */
+function renderForeignCause(cause: unknown): string {
+  const { name, message } = serializeForeignCause(cause)
+  return `${name}: ${message}`
+}
+
+/**
+ * Renders the minimal format: `kind` followed by the data values.
+ * Aggregates list their children: `aggregate(invalid:x,not_found:1)`.
+ */
+function renderMinimal(err: Err): string {
+  const children = childrenOf(err)
+  if (children) {
+    return `${err.kind}(${children.map(child => renderMinimal(child)).join(",")})`
+  }
+  const values = Object.values(err.data).map(value => String(value))
+  return values.length > 0 ? `${err.kind}:${values.join(",")}` : err.kind
+}
+
+/**
+ * Renders an error value as a string in the requested format.
+ *
+ * - `"pretty"`: `UserError.not_found - User abc123 not found` followed by
+ *   stack frames and causes, with optional ANSI colors
+ * - `"json"`: single-line JSON with kind, message, data and optional fields
+ * - `"minimal"`: `not_found:abc123`
+ *
+ * @param err - Error to render
+ * @param options - Format overrides (defaults to the global configuration)
+ * @returns The rendered error
+ *
+ * @example
+ * ```ts
+ * const err = UserError.not_found`User ${"id"} not found`({ id: "abc123" })
+ *
+ * format(err, { format: "minimal" })  // "not_found:abc123"
+ * format(err, { format: "json" })     // '{"kind":"not_found",...}'
+ * ```
+ */
+export function format(err: Err, options?: FormatOptions): string {
+  const config = getConfig()
+  const fmt = options?.format ?? config.format
+  const colors = options?.colors ?? config.colors
+
+  switch (fmt) {
+    case "json":
+      return JSON.stringify(toJsonObject(err))
+    case "minimal":
+      return renderMinimal(err)
+    default:
+      return renderPretty(err, colors, options?.name)
+  }
+}
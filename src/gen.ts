@@ -0,0 +1,84 @@
+/**
+ * Generator-based early return for `Success | Err` values.
+ * @module gen
+ */
+
+import type { ErrOf, OkOf } from "./result.ts"
+import { type Err, isErr } from "./types.ts"
+
+/**
+ * Unwraps a result inside a gen() body.
+ * `yield*` on the returned generator evaluates to the success value,
+ * or ends the body with the error.
+ */
+export type Try = <V>(value: V) => Generator<ErrOf<V>, OkOf<V>, unknown>
+
+/**
+ * Yields the error (ending the gen() body) or returns the success value.
+ */
+function* unwrapStep<V>(value: V): Generator<ErrOf<V>, OkOf<V>, unknown> {
+  if (isErr(value)) {
+    yield value as ErrOf<V>
+  }
+  return value as OkOf<V>
+}
+
+/**
+ * Checks if a generator object is an async generator.
+ */
+function isAsyncGenerator(
+  iterator: Generator | AsyncGenerator
+): iterator is AsyncGenerator {
+  return Symbol.asyncIterator in iterator
+}
+
+/**
+ * Runs a generator body in which `yield* $(value)` works like Zig's `try`.
+ *
+ * `yield* $(value)` evaluates to the success value, or stops the body and
+ * returns the error as-is, so its `cause` chain is untouched. `finally`
+ * blocks in the body still run. The return type is the body's return
+ * value plus every error set that can be yielded.
+ *
+ * Async generator bodies return a promise; await results before
+ * unwrapping them: `yield* $(await fetchUser(id))`.
+ *
+ * @param body - Generator function receiving the `$` unwrap helper
+ * @returns The body's return value or the first error
+ *
+ * @example
+ * ```ts
+ * const processCheckout = (id: string) =>
+ *   gen(function* ($) {
+ *     const user = yield* $(getUser(id))
+ *     const order = yield* $(getOrder(user.id))
+ *     return createReceipt(user, order)
+ *   })
+ * // Receipt | UserError | DbError
+ * ```
+ */
+export function gen<Y extends Err, R>(
+  body: ($: Try) => Generator<Y, R, unknown>
+): R | Y
+export function gen<Y extends Err, R>(
+  body: ($: Try) => AsyncGenerator<Y, R, unknown>
+): Promise<R | Y>
+export function gen(body: ($: Try) => Generator | AsyncGenerator): unknown {
+  const iterator = body(unwrapStep)
+
+  if (isAsyncGenerator(iterator)) {
+    return (async () => {
+      const step = await iterator.next()
+      if (!step.done) {
+        await iterator.return(undefined)
+      }
+      return step.value
+    })()
+  }
+
+  const step = iterator.next()
+  if (!step.done) {
+    iterator.return(undefined)
+  }
+  return step.value
+}
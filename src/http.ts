@@ -0,0 +1,224 @@
+/**
+ * HTTP middleware that turns returned error set values into responses.
+ * Available as `@takinprofit/errorset/http`.
+ * @module http
+ */
+
+import { type Format, getConfig } from "./config.ts"
+import { ErrorSetException } from "./exception.ts"
+import { format } from "./format.ts"
+import { metaOf } from "./meta.ts"
+import { type Err, type ErrorMapper, isErr } from "./types.ts"
+
+/**
+ * Error kinds found in a handler's (possibly promised) return type.
+ */
+export type KindsOf<R> = Extract<Awaited<R>, Err>["kind"]
+
+/**
+ * Options for rendering errors as HTTP responses.
+ *
+ * @typeParam Kinds - Error kinds the handler can return
+ */
+export type HttpOptions<Kinds extends string = string> = {
+  /**
+   * Status code for each kind. Kinds not listed use their `status`
+   * metadata, then 500.
+   */
+  status?: { readonly [K in Kinds]?: number }
+  /** Output format of the response body (defaults to the global format) */
+  format?: Format
+  /**
+   * Maps unknown thrown exceptions to an error to render.
+   * Without it, they are rethrown (or passed to `next` for Express).
+   */
+  fallback?: ErrorMapper<string, Record<string, unknown>>
+}
+
+/**
+ * Minimal Express-style response used by expressHandler().
+ */
+export type ExpressResponse = {
+  /** Whether a response has already been sent */
+  readonly headersSent: boolean
+  /** Sets the status code */
+  status(code: number): unknown
+  /** Sets a response header */
+  setHeader(name: string, value: string): unknown
+  /** Sends a string body */
+  send(body: string): unknown
+  /** Sends a JSON body */
+  json(body: unknown): unknown
+}
+
+/**
+ * Express `next` callback.
+ */
+export type ExpressNext = (error?: unknown) => void
+
+/** Content type of each output format */
+const CONTENT_TYPES: Readonly<Record<Format, string>> = {
+  json: "application/json",
+  pretty: "text/plain; charset=utf-8",
+  minimal: "text/plain; charset=utf-8",
+}
+
+/**
+ * Status, content type and body of a rendered error.
+ */
+type RenderedError = {
+  status: number
+  contentType: string
+  body: string
+}
+
+/**
+ * Renders an error with the status map and the configured format.
+ * Colors are always disabled in response bodies.
+ */
+function renderError(err: Err, options?: HttpOptions): RenderedError {
+  const fmt = options?.format ?? getConfig().format
+  const statuses: Readonly<Record<string, number | undefined>> =
+    options?.status ?? {}
+  return {
+    status: statuses[err.kind] ?? metaOf(err).status ?? 500,
+    contentType: CONTENT_TYPES[fmt],
+    body: format(err, { format: fmt, colors: false }),
+  }
+}
+
+/**
+ * Converts a thrown exception to an error to render.
+ * `ErrorSetException` returns its original error; other exceptions go
+ * through the fallback mapper, or are rethrown without one.
+ */
+function recoverThrown(error_: unknown, options?: HttpOptions): Err {
+  if (error_ instanceof ErrorSetException) {
+    return error_.err
+  }
+  if (!options?.fallback) {
+    throw error_
+  }
+  // Convert non-Error values to Error objects
+  const error = error_ instanceof Error ? error_ : new Error(String(error_))
+  return options.fallback(error)
+}
+
+/**
+ * Renders an error set value as an HTTP `Response`.
+ *
+ * @param err - Error to render
+ * @param options - Status map and output format
+ * @returns Response with the resolved status and the rendered error body
+ *
+ * @example
+ * ```ts
+ * return toResponse(err, { status: { not_found: 404 }, format: "json" })
+ * ```
+ */
+export function toResponse<E extends Err>(
+  err: E,
+  options?: HttpOptions<E["kind"]>
+): Response {
+  const { status, contentType, body } = renderError(err, options)
+  return new Response(body, {
+    status,
+    headers: { "content-type": contentType },
+  })
+}
+
+/**
+ * Wraps a fetch-style handler that returns either a `Response` or an
+ * error set value. Errors are rendered with toResponse(); responses pass
+ * through unchanged. Works with any arguments, so it fits `fetch`
+ * handlers (`(request) => ...`) and Hono routes (`(c) => ...`) alike.
+ *
+ * @param handler - Handler returning a Response or an error
+ * @param options - Status map, output format and fallback mapper
+ * @returns Handler that always resolves to a Response
+ *
+ * @example
+ * ```ts
+ * const getUser = fetchHandler(
+ *   async (request: Request) => {
+ *     const user = await findUser(new URL(request.url).searchParams.get("id"))
+ *     if (UserError(user)) return user
+ *     return Response.json(user)
+ *   },
+ *   {
+ *     status: { not_found: 404, suspended: 403 },
+ *     fallback: e => ServerError.internal`${"message"}`({ message: e.message }),
+ *   }
+ * )
+ *
+ * Bun.serve({ fetch: getUser })
+ * ```
+ */
+export function fetchHandler<
+  Args extends unknown[],
+  R extends Response | Err | Promise<Response | Err>,
+>(
+  handler: (...args: Args) => R,
+  options?: HttpOptions<KindsOf<R>>
+): (...args: Args) => Promise<Response> {
+  return async (...args: Args): Promise<Response> => {
+    let result: Response | Err
+    try {
+      result = await handler(...args)
+    } catch (error_) {
+      result = recoverThrown(error_, options)
+    }
+    return isErr(result) ? toResponse<Err>(result, options) : result
+  }
+}
+
+/**
+ * Wraps an Express-style handler that returns a value or an error set
+ * value. Errors are sent with the resolved status and rendered body;
+ * other values (when not `undefined`) are sent as JSON unless the handler
+ * already responded. Unknown exceptions without a fallback go to `next`.
+ *
+ * @param handler - Handler returning a value, an error, or nothing
+ * @param options - Status map, output format and fallback mapper
+ * @returns Express-compatible request handler
+ *
+ * @example
+ * ```ts
+ * app.get(
+ *   "/users/:id",
+ *   expressHandler(req => getUser(req.params.id), {
+ *     status: { not_found: 404 },
+ *   })
+ * )
+ * ```
+ */
+export function expressHandler<Req, Res extends ExpressResponse, R>(
+  handler: (req: Req, res: Res, next: ExpressNext) => R,
+  options?: HttpOptions<KindsOf<R>>
+): (req: Req, res: Res, next: ExpressNext) => Promise<void> {
+  return async (req: Req, res: Res, next: ExpressNext): Promise<void> => {
+    let result: unknown
+    try {
+      result = await handler(req, res, next)
+    } catch (error_) {
+      try {
+        result = recoverThrown(error_, options)
+      } catch (error) {
+        next(error)
+        return
+      }
+    }
+
+    if (res.headersSent) {
+      return
+    }
+    if (isErr(result)) {
+      const { status, contentType, body } = renderError(result, options)
+      res.status(status)
+      res.setHeader("content-type", contentType)
+      res.send(body)
+    } else if (result !== undefined) {
+      res.json(result)
+    }
+  }
+}
@@ -9,16 +9,130 @@
  * @module errorset
  */
 
+// Adapters
+export {
+  type Adapter,
+  type AdapterOptions,
+  defineAdapter,
+} from "./adapter.ts"
+// Aggregate errors
+export {
+  type AggregateData,
+  type CollectErr,
+  type CollectOk,
+  collect,
+  ErrAggregate,
+} from "./aggregate.ts"
+// Batches of results
+export {
+  type ErrOfKind,
+  type ErrorsByKind,
+  groupByKind,
+  type KindsGuard,
+  partition,
+  type SettleOptions,
+  type SettleTask,
+  settleAll,
+} from "./batch.ts"
+// Cause chains
+export {
+  type CauseOptions,
+  causes,
+  findCause,
+  hasCause,
+  rootCause,
+} from "./cause.ts"
 // Configuration
 export {
+  type Clock,
   type Config,
-  configure,
   type Format,
   getConfig,
+  type Hooks,
+  type RedactRule,
+  type RedactStyle,
   resetConfig,
+  type TimestampFormat,
 } from "./config.ts"
+// Configuration validation
+export {
+  ConfigError,
+  configure,
+  configureFromEnv,
+  validateConfig,
+} from "./configure.ts"
+// Native Error bridge
+export { ErrorSetException, expect, toError, unwrap } from "./exception.ts"
+// Rendering
+export { type ErrJson, type FormatOptions, format } from "./format.ts"
+// Early return
+export { gen, type Try } from "./gen.ts"
+// Kind metadata
+export {
+  type KindMeta,
+  type KindMetaMap,
+  metaOf,
+  type Severity,
+} from "./meta.ts"
+// HTTP problem details
+export {
+  PROBLEM_CONTENT_TYPE,
+  type ProblemDetails,
+  type ProblemDetailsOptions,
+  type ProblemTypeOptions,
+  toProblemDetails,
+} from "./problem.ts"
+// Redaction
+export { REDACTED, unsafeData } from "./redact.ts"
+// Result combinators
+export {
+  andThen,
+  andThenAsync,
+  type ErrOf,
+  map,
+  mapAsync,
+  mapErr,
+  mapErrAsync,
+  type OkOf,
+  orElse,
+  orElseAsync,
+  pipe,
+  pipeAsync,
+  tap,
+  tapAsync,
+  tapErr,
+  tapErrAsync,
+  unwrapOr,
+  unwrapOrAsync,
+} from "./result.ts"
+// Serialization
+export {
+  type SerializedErr,
+  type SerializedForeignCause,
+  serialize,
+} from "./serialize.ts"
+// Error sinks
+export {
+  type BatchingSink,
+  type BatchOptions,
+  type BatchWriter,
+  batchingSink,
+  type ErrorEvent,
+  type MemorySink,
+  memorySink,
+  type Sink,
+} from "./sink.ts"
+// Stack traces
+export {
+  parseStack,
+  type StackFilter,
+  type StackFrame,
+  type StackOptions,
+} from "./stack.ts"
 // Core types and constants
 export {
+  type AsyncInspectHandlers,
+  type AsyncRecoverHandlers,
   type CallableErr,
   captureAsync,
   captureSync,
@@ -34,19 +148,38 @@ export {
   type ErrorSetBuilder,
   type ErrorSetConfig,
   errorSet,
+  type GuardedErr,
   type HasDuplicates,
   type InspectHandler,
   type InspectHandlers,
   inspect,
+  inspectAsync,
   isErr,
+  type KindCollisions,
   type KindConstructor,
+  type KindData,
+  type KindDataConstructor,
+  type KindDataCreator,
   type KindFunction,
   type KindGuard,
+  type MatchHandlers,
+  type MatchResult,
+  type MergeableGuard,
+  type MergedErr,
+  type MergedInspectHandlers,
+  type MergedKinds,
+  type MergedRecoverHandlers,
+  type MergedSet,
+  match,
   merge,
+  type NarrowKind,
   type NoDuplicates,
+  type PerKindData,
   type RecoverHandler,
   type RecoverHandlers,
   recover,
+  recoverAsync,
+  type SetErr,
   type SetGuard,
   type SetGuardWithKinds,
 } from "./types.ts"
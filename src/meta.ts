@@ -0,0 +1,69 @@
+/**
+ * Metadata declared per error kind (HTTP status, severity, retryability).
+ * @module meta
+ */
+
+import type { Err } from "./types.ts"
+
+/**
+ * Severity of an error kind, for log levels and alerting.
+ */
+export type Severity = "debug" | "info" | "warn" | "error" | "fatal"
+
+/**
+ * Metadata for an error kind. All fields are optional.
+ */
+export type KindMeta = {
+  /** HTTP status code for responses (e.g., 404) */
+  status?: number
+  /** Log level / alerting severity */
+  severity?: Severity
+  /** Whether the operation can be retried */
+  retryable?: boolean
+  /** Stable, machine-readable error code (e.g., "USER_NOT_FOUND") */
+  code?: string
+  /** Human-readable description of the kind */
+  description?: string
+}
+
+/**
+ * Metadata map passed to errorSet(): optional metadata for each kind.
+ */
+export type KindMetaMap<Kinds extends string> = {
+  readonly [K in Kinds]?: KindMeta
+}
+
+/**
+ * Symbol under which errors reference their kind's metadata.
+ * @internal
+ */
+export const META: unique symbol = Symbol("errorset.meta")
+
+/**
+ * Shared metadata for kinds without any.
+ * @internal
+ */
+export const NO_META: Readonly<KindMeta> = Object.freeze({})
+
+/**
+ * Reads the metadata declared for an error's kind.
+ *
+ * Works for any error created (or deserialized) by an error set.
+ * Returns an empty object if the kind has no metadata.
+ *
+ * @param err - Error to look up
+ * @returns The kind's metadata
+ *
+ * @example
+ * ```ts
+ * const UserError = errorSet("UserError", ["not_found", "rate_limited"], {
+ *   not_found: { status: 404, severity: "info" },
+ *   rate_limited: { status: 429, retryable: true },
+ * }).init<User>()
+ *
+ * const { status = 500 } = metaOf(err)
+ * ```
+ */
+export function metaOf(err: Err): Readonly<KindMeta> {
+  return (err as { [META]?: Readonly<KindMeta> })[META] ?? NO_META
+}
@@ -0,0 +1,194 @@
+/**
+ * RFC 9457 Problem Details conversion for HTTP APIs.
+ * @module problem
+ */
+
+import { metaOf } from "./meta.ts"
+import type { SerializedErr } from "./serialize.ts"
+import { type Err, isErr } from "./types.ts"
+
+/**
+ * Media type of RFC 9457 problem details responses.
+ */
+export const PROBLEM_CONTENT_TYPE = "application/problem+json"
+
+/**
+ * RFC 9457 problem details object.
+ *
+ * Standard members plus extension members copied from the error's data.
+ */
+export type ProblemDetails = {
+  /** URI identifying the problem type (set and kind) */
+  type: string
+  /** Short, human-readable summary of the problem type */
+  title: string
+  /** HTTP status code */
+  status: number
+  /** Human-readable explanation of this occurrence (the error message) */
+  detail?: string
+  /** URI identifying this occurrence */
+  instance?: string
+  /** Extension members */
+  [member: string]: unknown
+}
+
+/**
+ * Options shared by both directions of the conversion.
+ */
+export type ProblemTypeOptions = {
+  /** Prefix of the `type` URI (default: "urn:errorset:") */
+  typeBase?: string
+}
+
+/**
+ * Options for toProblemDetails().
+ */
+export type ProblemDetailsOptions = ProblemTypeOptions & {
+  /**
+   * Resolves the HTTP status for an error. When it returns undefined,
+   * the kind's `status` metadata is used, then 500.
+   */
+  status?: (err: Err) => number | undefined
+  /** Data fields to copy into extension members (default: none) */
+  fields?: readonly string[]
+  /** URI identifying this occurrence */
+  instance?: string
+}
+
+/** Default prefix of problem type URIs */
+const DEFAULT_TYPE_BASE = "urn:errorset:"
+
+/** Members defined by RFC 9457, never read from or written as data */
+const STANDARD_MEMBERS: ReadonlySet<string> = new Set([
+  "type",
+  "title",
+  "status",
+  "detail",
+  "instance",
+])
+
+/**
+ * Builds the problem type URI for a set and kind.
+ */
+function problemType(set: string, kind: string, typeBase: string): string {
+  return `${typeBase}${set}/${kind}`
+}
+
+/**
+ * Converts an error set value to an RFC 9457 problem details object.
+ *
+ * The set name and kind become `type` (and `title` unless the kind has a
+ * `description`), the message becomes `detail`, and the data fields
+ * listed in `fields` become extension members. Data is never copied
+ * unless listed, so internal fields stay out of responses.
+ *
+ * @param err - Error to convert
+ * @param options - Type prefix, status resolver, fields and instance
+ * @returns Problem details object, ready for `JSON.stringify`
+ * @throws {Error} If the value is not an error set value
+ * @throws {Error} If `fields` names a standard member
+ *
+ * @example
+ * ```ts
+ * const problem = toProblemDetails(err, { fields: ["id"] })
+ * // {
+ * //   type: "urn:errorset:UserError/not_found",
+ * //   title: "UserError.not_found",
+ * //   status: 404,
+ * //   detail: "User 123 not found",
+ * //   id: "123",
+ * // }
+ *
+ * return new Response(JSON.stringify(problem), {
+ *   status: problem.status,
+ *   headers: { "content-type": PROBLEM_CONTENT_TYPE },
+ * })
+ * ```
+ */
+export function toProblemDetails(
+  err: Err,
+  options?: ProblemDetailsOptions
+): ProblemDetails {
+  if (!isErr(err)) {
+    throw new Error("Cannot convert a value that is not an error set value")
+  }
+
+  const meta = metaOf(err)
+  const problem: ProblemDetails = {
+    type: problemType(
+      err.set,
+      err.kind,
+      options?.typeBase ?? DEFAULT_TYPE_BASE
+    ),
+    title: meta.description ?? `${err.set}.${err.kind}`,
+    status: options?.status?.(err) ?? meta.status ?? 500,
+    detail: err.message,
+    ...(options?.instance !== undefined && { instance: options.instance }),
+  }
+
+  for (const field of options?.fields ?? []) {
+    if (STANDARD_MEMBERS.has(field)) {
+      throw new Error(
+        `Cannot use standard member "${field}" as a problem details extension`
+      )
+    }
+    if (err.data[field] !== undefined) {
+      problem[field] = err.data[field]
+    }
+  }
+
+  return problem
+}
+
+/**
+ * Reads an untrusted problem details body into the serialized error
+ * format, if its `type` belongs to the given set. Extension members
+ * become data; `detail` (or `title`) becomes the message.
+ *
+ * @param input - Parsed body or JSON string
+ * @param set - Name of the set to match
+ * @param options - Type prefix used when the problem was created
+ * @returns Serialized error, or undefined if the type is not the set's
+ * @throws {Error} If the input is not valid JSON or has no string `type`
+ *
+ * @internal
+ */
+export function parseProblemDetails(
+  input: unknown,
+  set: string,
+  options?: ProblemTypeOptions
+): SerializedErr | undefined {
+  const value: unknown = typeof input === "string" ? JSON.parse(input) : input
+
+  if (
+    typeof value !== "object" ||
+    value === null ||
+    Array.isArray(value) ||
+    typeof (value as { type?: unknown }).type !== "string"
+  ) {
+    throw new Error("Invalid problem details: expected an object with a type")
+  }
+
+  const body = value as Record<string, unknown> & { type: string }
+  const prefix = problemType(set, "", options?.typeBase ?? DEFAULT_TYPE_BASE)
+  if (!body.type.startsWith(prefix)) {
+    return undefined
+  }
+
+  const kind = body.type.slice(prefix.length)
+  const data: Record<string, unknown> = {}
+  for (const [member, memberValue] of Object.entries(body)) {
+    if (!STANDARD_MEMBERS.has(member)) {
+      data[member] = memberValue
+    }
+  }
+
+  let message = kind
+  if (typeof body.detail === "string") {
+    message = body.detail
+  } else if (typeof body.title === "string") {
+    message = body.title
+  }
+
+  return { set, kind, message, data }
+}
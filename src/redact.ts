@@ -0,0 +1,141 @@
+/**
+ * Redaction of sensitive fields in error data.
+ * @module redact
+ */
+
+import type { RedactRule, RedactStyle } from "./config.ts"
+import { type Err, isErr } from "./types.ts"
+
+/**
+ * Replacement for values redacted with the "mask" style.
+ */
+export const REDACTED = "[REDACTED]"
+
+/**
+ * Symbol under which errors keep their unredacted data.
+ * @internal
+ */
+export const RAW_DATA: unique symbol = Symbol("errorset.rawData")
+
+/**
+ * Checks if a value is a plain object or array whose fields are walked.
+ * Class instances (dates, buffers, errors) and error set values (already
+ * redacted when created) are treated as leaf values.
+ */
+function isWalkable(value: unknown): value is Record<string, unknown> {
+  if (Array.isArray(value)) {
+    return true
+  }
+  if (typeof value !== "object" || value === null || isErr(value)) {
+    return false
+  }
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Checks if a field matches any rule.
+ */
+function matches(
+  rules: readonly RedactRule[],
+  key: string,
+  path: string,
+  value: unknown
+): boolean {
+  return rules.some(rule => {
+    if (typeof rule === "function") {
+      return rule(path, value)
+    }
+    return rule.includes(".") ? rule === path : rule === key
+  })
+}
+
+/**
+ * Short, stable FNV-1a hash of a value, for correlating redacted values.
+ */
+function hashValue(value: unknown): string {
+  const text =
+    typeof value === "object" && value !== null
+      ? JSON.stringify(value)
+      : String(value)
+  let hash = 0x81_1c_9d_c5
+  for (let i = 0; i < text.length; i++) {
+    // biome-ignore lint/suspicious/noBitwiseOperators: FNV-1a mixing step
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01_00_01_93)
+  }
+  // biome-ignore lint/suspicious/noBitwiseOperators: unsigned 32-bit result
+  return `[hash:${(hash >>> 0).toString(16).padStart(8, "0")}]`
+}
+
+/**
+ * Copies a data object with matching fields replaced. Plain objects and
+ * arrays are walked; unchanged branches are shared with the input.
+ */
+function redactRecord(
+  data: Record<string, unknown>,
+  rules: readonly RedactRule[],
+  style: RedactStyle,
+  prefix: string
+): Record<string, unknown> {
+  let result: Record<string, unknown> | undefined
+  for (const [key, value] of Object.entries(data)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    let next = value
+    if (matches(rules, key, path, value)) {
+      next = style === "hash" ? hashValue(value) : REDACTED
+    } else if (isWalkable(value)) {
+      next = redactRecord(value, rules, style, path)
+    }
+    if (next !== value) {
+      result ??= (Array.isArray(data) ? [...data] : { ...data }) as Record<
+        string,
+        unknown
+      >
+      result[key] = next
+    }
+  }
+  return result ?? data
+}
+
+/**
+ * Applies redaction rules to error data.
+ *
+ * @param data - Extracted context data
+ * @param rules - Field names, dotted paths or predicates
+ * @param style - Replacement for redacted values
+ * @returns Redacted copy, or `data` itself when nothing matched
+ *
+ * @internal
+ */
+export function redactData(
+  data: Record<string, unknown>,
+  rules: readonly RedactRule[],
+  style: RedactStyle
+): Record<string, unknown> {
+  return rules.length === 0 ? data : redactRecord(data, rules, style, "")
+}
+
+/**
+ * Returns an error's data with redacted fields restored.
+ *
+ * `err.data`, messages, inspection, formatting and serialization only see
+ * redacted values. Use this accessor where the raw values are needed.
+ * Deserialized errors only have the redacted data they were sent with.
+ *
+ * @param err - Error to read
+ * @returns The unredacted data
+ *
+ * @example
+ * ```ts
+ * const UserError = errorSet("UserError", ["not_found"])
+ *   .init<User>({ redact: ["email"] })
+ *
+ * const err = UserError.not_found`No user ${"email"}`({ email: "a@b.co" })
+ * err.message           // "No user [REDACTED]"
+ * unsafeData(err).email // "a@b.co"
+ * ```
+ */
+export function unsafeData<E extends Err>(err: E): E["data"] {
+  return (err as E & { [RAW_DATA]?: E["data"] })[RAW_DATA] ?? err.data
+}
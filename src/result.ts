@@ -0,0 +1,362 @@
+/**
+ * Combinators for chaining `Success | Err` values without manual guards.
+ * @module result
+ */
+
+import { type Err, isErr } from "./types.ts"
+
+/**
+ * The success part of a `Success | Err` union.
+ */
+export type OkOf<V> = Exclude<V, Err>
+
+/**
+ * The error part of a `Success | Err` union.
+ */
+export type ErrOf<V> = Extract<V, Err>
+
+/**
+ * A value or a promise of it.
+ */
+type Awaitable<V> = V | PromiseLike<V>
+
+/**
+ * Transforms the success value, passing errors through unchanged.
+ *
+ * @param value - The result value (success or error)
+ * @param fn - Transform applied to the success value
+ * @returns The transformed value or the original error
+ *
+ * @example
+ * ```ts
+ * const name = map(getUser(id), user => user.name)
+ * // string | UserError
+ * ```
+ */
+export function map<V, R>(value: V, fn: (value: OkOf<V>) => R): R | ErrOf<V> {
+  return isErr(value) ? (value as ErrOf<V>) : fn(value as OkOf<V>)
+}
+
+/**
+ * Transforms the error, passing success values through unchanged.
+ *
+ * @param value - The result value (success or error)
+ * @param fn - Transform applied to the error
+ * @returns The original success value or the transformed error
+ *
+ * @example
+ * ```ts
+ * const user = mapErr(getUser(id), e =>
+ *   ApiError.upstream`User lookup failed`({}, { cause: e })
+ * )
+ * // User | ApiError
+ * ```
+ */
+export function mapErr<V, R>(
+  value: V,
+  fn: (error: ErrOf<V>) => R
+): OkOf<V> | R {
+  return isErr(value) ? fn(value as ErrOf<V>) : (value as OkOf<V>)
+}
+
+/**
+ * Chains a step that may itself fail.
+ * Errors from both the input and the step accumulate in the result type.
+ *
+ * @param value - The result value (success or error)
+ * @param fn - Next step, called with the success value
+ * @returns The step's result or the original error
+ *
+ * @example
+ * ```ts
+ * const order = andThen(getUser(id), user => getOrder(user.id))
+ * // Order | OrderError | UserError
+ * ```
+ */
+export function andThen<V, R>(
+  value: V,
+  fn: (value: OkOf<V>) => R
+): R | ErrOf<V> {
+  return map(value, fn)
+}
+
+/**
+ * Handles an error with a fallback step that may itself fail.
+ *
+ * @param value - The result value (success or error)
+ * @param fn - Fallback step, called with the error
+ * @returns The original success value or the fallback's result
+ *
+ * @example
+ * ```ts
+ * const user = orElse(getUser(id), e =>
+ *   UserError.not_found(e) ? getUserFromBackup(id) : e
+ * )
+ * ```
+ */
+export function orElse<V, R>(
+  value: V,
+  fn: (error: ErrOf<V>) => R
+): OkOf<V> | R {
+  return mapErr(value, fn)
+}
+
+/**
+ * Returns the success value, or the fallback for any error.
+ *
+ * @param value - The result value (success or error)
+ * @param fallback - Value returned in place of an error
+ * @returns The success value or the fallback
+ *
+ * @example
+ * ```ts
+ * const user = unwrapOr(getUser(id), guestUser)
+ * ```
+ */
+export function unwrapOr<V, D>(value: V, fallback: D): OkOf<V> | D {
+  return isErr(value) ? fallback : (value as OkOf<V>)
+}
+
+/**
+ * Runs a side effect on the success value and returns the value unchanged.
+ *
+ * @param value - The result value (success or error)
+ * @param fn - Side effect for the success value
+ * @returns The original value
+ */
+export function tap<V>(value: V, fn: (value: OkOf<V>) => void): V {
+  if (!isErr(value)) {
+    fn(value as OkOf<V>)
+  }
+  return value
+}
+
+/**
+ * Runs a side effect on the error and returns the value unchanged.
+ *
+ * @param value - The result value (success or error)
+ * @param fn - Side effect for the error
+ * @returns The original value
+ */
+export function tapErr<V>(value: V, fn: (error: ErrOf<V>) => void): V {
+  if (isErr(value)) {
+    fn(value as ErrOf<V>)
+  }
+  return value
+}
+
+/**
+ * Threads a value through steps, short-circuiting on the first error.
+ *
+ * Each step receives the previous step's success value. The result type
+ * lists the final success type and every error any step can return.
+ *
+ * @param value - Initial result value
+ * @param steps - Steps applied in order while no error has occurred
+ * @returns The last step's result or the first error
+ *
+ * @example
+ * ```ts
+ * const receipt = pipe(
+ *   getUser(id),
+ *   user => getCart(user.id),
+ *   cart => checkout(cart)
+ * )
+ * // Receipt | CheckoutError | CartError | UserError
+ * ```
+ */
+export function pipe<A>(value: A): A
+export function pipe<A, B>(value: A, ab: (a: OkOf<A>) => B): B | ErrOf<A>
+export function pipe<A, B, C>(
+  value: A,
+  ab: (a: OkOf<A>) => B,
+  bc: (b: OkOf<B>) => C
+): C | ErrOf<A | B>
+export function pipe<A, B, C, D>(
+  value: A,
+  ab: (a: OkOf<A>) => B,
+  bc: (b: OkOf<B>) => C,
+  cd: (c: OkOf<C>) => D
+): D | ErrOf<A | B | C>
+export function pipe<A, B, C, D, E>(
+  value: A,
+  ab: (a: OkOf<A>) => B,
+  bc: (b: OkOf<B>) => C,
+  cd: (c: OkOf<C>) => D,
+  de: (d: OkOf<D>) => E
+): E | ErrOf<A | B | C | D>
+export function pipe<A, B, C, D, E, F>(
+  value: A,
+  ab: (a: OkOf<A>) => B,
+  bc: (b: OkOf<B>) => C,
+  cd: (c: OkOf<C>) => D,
+  de: (d: OkOf<D>) => E,
+  ef: (e: OkOf<E>) => F
+): F | ErrOf<A | B | C | D | E>
+export function pipe<A, B, C, D, E, F, G>(
+  value: A,
+  ab: (a: OkOf<A>) => B,
+  bc: (b: OkOf<B>) => C,
+  cd: (c: OkOf<C>) => D,
+  de: (d: OkOf<D>) => E,
+  ef: (e: OkOf<E>) => F,
+  fg: (f: OkOf<F>) => G
+): G | ErrOf<A | B | C | D | E | F>
+export function pipe(
+  value: unknown,
+  ...steps: ((value: unknown) => unknown)[]
+): unknown {
+  let current = value
+  for (const step of steps) {
+    if (isErr(current)) {
+      return current
+    }
+    current = step(current)
+  }
+  return current
+}
+
+/**
+ * Async version of map. Accepts a promised value and an async transform.
+ */
+export async function mapAsync<V, R>(
+  value: Awaitable<V>,
+  fn: (value: OkOf<V>) => Awaitable<R>
+): Promise<R | ErrOf<V>> {
+  return await map(await value, fn)
+}
+
+/**
+ * Async version of mapErr. Accepts a promised value and an async transform.
+ */
+export async function mapErrAsync<V, R>(
+  value: Awaitable<V>,
+  fn: (error: ErrOf<V>) => Awaitable<R>
+): Promise<OkOf<V> | R> {
+  return await mapErr(await value, fn)
+}
+
+/**
+ * Async version of andThen. Accepts a promised value and an async step.
+ */
+export async function andThenAsync<V, R>(
+  value: Awaitable<V>,
+  fn: (value: OkOf<V>) => Awaitable<R>
+): Promise<R | ErrOf<V>> {
+  return await andThen(await value, fn)
+}
+
+/**
+ * Async version of orElse. Accepts a promised value and an async fallback.
+ */
+export async function orElseAsync<V, R>(
+  value: Awaitable<V>,
+  fn: (error: ErrOf<V>) => Awaitable<R>
+): Promise<OkOf<V> | R> {
+  return await orElse(await value, fn)
+}
+
+/**
+ * Async version of unwrapOr. Accepts a promised value.
+ */
+export async function unwrapOrAsync<V, D>(
+  value: Awaitable<V>,
+  fallback: D
+): Promise<OkOf<V> | D> {
+  return unwrapOr(await value, fallback)
+}
+
+/**
+ * Async version of tap. Awaits the side effect before resolving the value.
+ */
+export async function tapAsync<V>(
+  value: Awaitable<V>,
+  fn: (value: OkOf<V>) => Awaitable<void>
+): Promise<V> {
+  const resolved = await value
+  if (!isErr(resolved)) {
+    await fn(resolved as OkOf<V>)
+  }
+  return resolved
+}
+
+/**
+ * Async version of tapErr. Awaits the side effect before resolving the value.
+ */
+export async function tapErrAsync<V>(
+  value: Awaitable<V>,
+  fn: (error: ErrOf<V>) => Awaitable<void>
+): Promise<V> {
+  const resolved = await value
+  if (isErr(resolved)) {
+    await fn(resolved as ErrOf<V>)
+  }
+  return resolved
+}
+
+/**
+ * Async version of pipe. The initial value may be a promise and steps
+ * may be async; each step is awaited before the next one runs.
+ *
+ * @example
+ * ```ts
+ * const receipt = await pipeAsync(
+ *   fetchUser(id),
+ *   user => fetchCart(user.id),
+ *   cart => checkout(cart)
+ * )
+ * ```
+ */
+export function pipeAsync<A>(value: Awaitable<A>): Promise<A>
+export function pipeAsync<A, B>(
+  value: Awaitable<A>,
+  ab: (a: OkOf<A>) => Awaitable<B>
+): Promise<B | ErrOf<A>>
+export function pipeAsync<A, B, C>(
+  value: Awaitable<A>,
+  ab: (a: OkOf<A>) => Awaitable<B>,
+  bc: (b: OkOf<B>) => Awaitable<C>
+): Promise<C | ErrOf<A | B>>
+export function pipeAsync<A, B, C, D>(
+  value: Awaitable<A>,
+  ab: (a: OkOf<A>) => Awaitable<B>,
+  bc: (b: OkOf<B>) => Awaitable<C>,
+  cd: (c: OkOf<C>) => Awaitable<D>
+): Promise<D | ErrOf<A | B | C>>
+export function pipeAsync<A, B, C, D, E>(
+  value: Awaitable<A>,
+  ab: (a: OkOf<A>) => Awaitable<B>,
+  bc: (b: OkOf<B>) => Awaitable<C>,
+  cd: (c: OkOf<C>) => Awaitable<D>,
+  de: (d: OkOf<D>) => Awaitable<E>
+): Promise<E | ErrOf<A | B | C | D>>
+export function pipeAsync<A, B, C, D, E, F>(
+  value: Awaitable<A>,
+  ab: (a: OkOf<A>) => Awaitable<B>,
+  bc: (b: OkOf<B>) => Awaitable<C>,
+  cd: (c: OkOf<C>) => Awaitable<D>,
+  de: (d: OkOf<D>) => Awaitable<E>,
+  ef: (e: OkOf<E>) => Awaitable<F>
+): Promise<F | ErrOf<A | B | C | D | E>>
+export function pipeAsync<A, B, C, D, E, F, G>(
+  value: Awaitable<A>,
+  ab: (a: OkOf<A>) => Awaitable<B>,
+  bc: (b: OkOf<B>) => Awaitable<C>,
+  cd: (c: OkOf<C>) => Awaitable<D>,
+  de: (d: OkOf<D>) => Awaitable<E>,
+  ef: (e: OkOf<E>) => Awaitable<F>,
+  fg: (f: OkOf<F>) => Awaitable<G>
+): Promise<G | ErrOf<A | B | C | D | E | F>>
+export async function pipeAsync(
+  value: unknown,
+  ...steps: ((value: unknown) => unknown)[]
+): Promise<unknown> {
+  let current = await value
+  for (const step of steps) {
+    if (isErr(current)) {
+      return current
+    }
+    current = await step(current)
+  }
+  return current
+}
@@ -0,0 +1,297 @@
+/**
+ * Wire format for moving error set values across process boundaries.
+ * @module serialize
+ */
+
+import { causes } from "./cause.ts"
+import type { StackFrame } from "./stack.ts"
+import { type Err, isErr } from "./types.ts"
+
+/**
+ * Stable, JSON-safe representation of an error set value.
+ *
+ * Contains only plain data, so it survives `JSON.stringify`,
+ * `structuredClone`, `postMessage` and job queues. Rebuild the
+ * branded error on the other side with `ErrorSet.deserialize()`.
+ */
+export type SerializedErr = {
+  /** Name of the error set that created the error */
+  set: string
+  /** The error kind/tag */
+  kind: string
+  /** Human-readable error message */
+  message: string
+  /**
+   * Extracted context data. Error set values in it, directly or in
+   * arrays (such as the children of an aggregate), are serialized too.
+   */
+  data: Record<string, unknown>
+  /** Path of the error within an aggregate, if any */
+  path?: string
+  /** Request-scoped context, if the error was created in a scope */
+  context?: Record<string, unknown>
+  /** Serialized wrapped cause, if any */
+  cause?: SerializedErr | SerializedForeignCause
+  /** Creation timestamp, if one was recorded */
+  timestamp?: number | string
+  /** Captured stack trace, if one was recorded */
+  stack?: string
+  /** Structured frames of the captured stack trace */
+  frames?: StackFrame[]
+}
+
+/**
+ * Serialized form of a cause that is not an error set value:
+ * a native `Error`, or any other thrown value converted to one.
+ *
+ * @typeParam E - Representation of error set values in its own cause chain
+ */
+export type SerializedForeignCause<E = SerializedErr> = {
+  /** Error name (e.g., "TypeError") */
+  name: string
+  /** Error message */
+  message: string
+  /** Stack trace, if the cause was a native error with one */
+  stack?: string
+  /** The native error's own cause, if any */
+  cause?: E | SerializedForeignCause<E>
+}
+
+/**
+ * Converts a cause that is not an error set value to its wire format.
+ * Non-Error values are converted with `String()`, like `capture` does.
+ * Its own cause is left out; see convertChain().
+ *
+ * @param cause - Native error or other thrown value
+ * @returns Plain object with name, message and optional stack
+ *
+ * @internal
+ */
+export function serializeForeignCause<E = SerializedErr>(
+  cause: unknown
+): SerializedForeignCause<E> {
+  if (!(cause instanceof Error)) {
+    return { name: "Error", message: String(cause) }
+  }
+  return {
+    name: cause.name,
+    message: cause.message,
+    ...(cause.stack !== undefined && { stack: cause.stack }),
+  }
+}
+
+/**
+ * Converts an error and its cause chain, one link at a time.
+ *
+ * The chain is walked with `causes()`, so it continues through native
+ * errors' own `cause` and stops at a cycle or after the default depth.
+ * Error set values are converted with `convert` and other causes as
+ * foreign causes; each link then gets the converted next link as `cause`.
+ *
+ * @param err - Error whose chain to convert
+ * @param convert - Converts one error set value, without its cause
+ * @returns The converted error with its nested cause chain
+ *
+ * @internal
+ */
+export function convertChain<E extends object>(
+  err: Err,
+  convert: (link: Err) => E
+): E {
+  let converted: E | SerializedForeignCause<E> | undefined
+  for (const link of [err, ...causes(err)].reverse()) {
+    const current = isErr(link) ? convert(link) : serializeForeignCause<E>(link)
+    converted =
+      converted === undefined ? current : { ...current, cause: converted }
+  }
+  return converted as E
+}
+
+/**
+ * Maps the values of error data, and the items of its arrays, one level
+ * deep. Used to convert the error set values that data holds.
+ *
+ * @param data - Error data
+ * @param convert - Conversion of a value or array item
+ * @returns Converted copy of the data
+ * @internal
+ */
+export function mapData(
+  data: Readonly<Record<string, unknown>>,
+  convert: (value: unknown) => unknown
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      Array.isArray(value) ? value.map(convert) : convert(value),
+    ])
+  )
+}
+
+/**
+ * Checks if a value has the shape of a serialized error: a set, kind,
+ * message and data. It is not fully validated; see parseSerialized().
+ *
+ * @param value - Value to check
+ * @returns True for serialized error set values
+ * @internal
+ */
+export function isSerializedErr(value: unknown): value is SerializedErr {
+  return (
+    isRecord(value) &&
+    typeof value.set === "string" &&
+    typeof value.kind === "string" &&
+    typeof value.message === "string" &&
+    isRecord(value.data)
+  )
+}
+
+/**
+ * Converts an error set value to its serialized wire format.
+ * Error set causes are serialized recursively; native errors and other
+ * causes are serialized as name, message, stack and their own cause.
+ *
+ * @param err - Error to serialize
+ * @returns Plain object safe for `JSON.stringify` and `structuredClone`
+ * @throws {Error} If the value is not an error set value
+ *
+ * @example
+ * ```ts
+ * const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+ *
+ * worker.postMessage(serialize(err))
+ * res.json({ error: serialize(err) })
+ *
+ * // On the other side:
+ * const restored = UserError.deserialize(message)
+ * UserError.not_found(restored) // true
+ * ```
+ */
+export function serialize(err: Err): SerializedErr {
+  if (!isErr(err)) {
+    throw new Error("Cannot serialize a value that is not an error set value")
+  }
+
+  return convertChain<SerializedErr>(err, link => ({
+    set: link.set,
+    kind: link.kind,
+    message: link.message,
+    data: mapData(link.data, value =>
+      isErr(value) ? serialize(value) : value
+    ),
+    ...(link.path !== undefined && { path: link.path }),
+    ...(link.context !== undefined && { context: { ...link.context } }),
+    ...(link.timestamp !== undefined && { timestamp: link.timestamp }),
+    ...(link.stack !== undefined && { stack: link.stack }),
+    ...(link.frames !== undefined && {
+      frames: link.frames.map(frame => ({ ...frame })),
+    }),
+  }))
+}
+
+/**
+ * Checks if a value is a non-null, non-array object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Checks if a value is an array of stack frames.
+ */
+function isFrameList(value: unknown): value is StackFrame[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      frame =>
+        isRecord(frame) &&
+        typeof frame.file === "string" &&
+        typeof frame.line === "number" &&
+        typeof frame.column === "number" &&
+        (frame.fn === undefined || typeof frame.fn === "string")
+    )
+  )
+}
+
+/**
+ * Validates a serialized cause: a serialized error (which has a `set`)
+ * or a serialized foreign cause.
+ */
+function parseCause(value: unknown): SerializedErr | SerializedForeignCause {
+  if (isRecord(value) && !("set" in value)) {
+    if (
+      typeof value.name !== "string" ||
+      typeof value.message !== "string" ||
+      (value.stack !== undefined && typeof value.stack !== "string")
+    ) {
+      throw new Error(
+        "Invalid serialized error: cause must have a string name and message"
+      )
+    }
+    return {
+      name: value.name,
+      message: value.message,
+      ...(value.stack !== undefined && { stack: value.stack }),
+      ...(value.cause !== undefined && { cause: parseCause(value.cause) }),
+    }
+  }
+  return parseSerialized(value)
+}
+
+/**
+ * Validates an untrusted value against the serialized wire format.
+ * Accepts either a parsed object or its JSON string.
+ *
+ * @param input - Serialized error or JSON string
+ * @returns The validated serialized error
+ * @throws {Error} If the input is not valid JSON or not a serialized error
+ *
+ * @internal
+ */
+export function parseSerialized(input: unknown): SerializedErr {
+  const value = typeof input === "string" ? JSON.parse(input) : input
+
+  if (!isSerializedErr(value)) {
+    throw new Error(
+      "Invalid serialized error: expected set, kind, message and data"
+    )
+  }
+  if (value.path !== undefined && typeof value.path !== "string") {
+    throw new Error("Invalid serialized error: path must be a string")
+  }
+  if (
+    value.timestamp !== undefined &&
+    typeof value.timestamp !== "number" &&
+    typeof value.timestamp !== "string"
+  ) {
+    throw new Error(
+      "Invalid serialized error: timestamp must be a number or string"
+    )
+  }
+  if (value.stack !== undefined && typeof value.stack !== "string") {
+    throw new Error("Invalid serialized error: stack must be a string")
+  }
+  if (value.frames !== undefined && !isFrameList(value.frames)) {
+    throw new Error(
+      "Invalid serialized error: frames must be an array of stack frames"
+    )
+  }
+  if (value.context !== undefined && !isRecord(value.context)) {
+    throw new Error("Invalid serialized error: context must be an object")
+  }
+
+  return {
+    set: value.set,
+    kind: value.kind,
+    message: value.message,
+    data: mapData(value.data, item =>
+      isSerializedErr(item) ? parseSerialized(item) : item
+    ),
+    ...(value.path !== undefined && { path: value.path }),
+    ...(value.context !== undefined && { context: value.context }),
+    ...(value.cause !== undefined && { cause: parseCause(value.cause) }),
+    ...(value.timestamp !== undefined && { timestamp: value.timestamp }),
+    ...(value.stack !== undefined && { stack: value.stack }),
+    ...(value.frames !== undefined && { frames: value.frames }),
+  }
+}
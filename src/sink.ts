@@ -0,0 +1,158 @@
+/**
+ * Sinks: hooks that record the errors they observe.
+ * @module sink
+ */
+
+import type { Hooks } from "./config.ts"
+import type { Err } from "./types.ts"
+
+/**
+ * An error observed by a hook.
+ * - "create": created by a kind function
+ * - "recover": handled by recover()
+ * - "capture": converted from an exception (with the thrown value)
+ */
+export type ErrorEvent =
+  | { readonly type: "create" | "recover"; readonly err: Err }
+  | { readonly type: "capture"; readonly err: Err; readonly thrown: unknown }
+
+/**
+ * A sink: hooks to install (globally with configure(), or on one set
+ * with init()) and the events it has seen.
+ */
+export type Sink = {
+  /** Hooks that feed this sink */
+  readonly hooks: Required<Hooks>
+}
+
+/**
+ * Sink keeping every event in memory, for tests.
+ */
+export type MemorySink = Sink & {
+  /** Events in the order they happened */
+  readonly events: readonly ErrorEvent[]
+  /** Errors created so far */
+  created(): Err[]
+  /** Forgets the recorded events */
+  clear(): void
+}
+
+/**
+ * Destination of a batching sink, such as an error reporting service.
+ */
+export type BatchWriter = {
+  /** Receives events in batches; may be async */
+  write(events: readonly ErrorEvent[]): void | Promise<void>
+}
+
+/**
+ * Options for batchingSink().
+ */
+export type BatchOptions = {
+  /** Number of buffered events that triggers a write (default: 100) */
+  size?: number
+}
+
+/**
+ * Sink buffering events and writing them in batches.
+ */
+export type BatchingSink = Sink & {
+  /** Number of buffered events not yet written */
+  readonly pending: number
+  /** Writes the buffered events now (e.g., at the end of a request) */
+  flush(): Promise<void>
+}
+
+/**
+ * Builds hooks that turn every observed error into an event.
+ */
+function hooksFor(record: (event: ErrorEvent) => void): Required<Hooks> {
+  return {
+    onCreate: err => record({ type: "create", err }),
+    onRecover: err => record({ type: "recover", err }),
+    onCapture: (err, thrown) => record({ type: "capture", err, thrown }),
+  }
+}
+
+/**
+ * Creates a sink that keeps every event in memory.
+ *
+ * @returns The sink; install its `hooks`
+ *
+ * @example
+ * ```ts
+ * const sink = memorySink()
+ * configure({ hooks: sink.hooks })
+ *
+ * await handleRequest(request)
+ * expect(sink.created().map(err => err.kind)).toEqual(["not_found"])
+ * sink.clear()
+ * ```
+ */
+export function memorySink(): MemorySink {
+  const events: ErrorEvent[] = []
+  return {
+    hooks: hooksFor(event => {
+      events.push(event)
+    }),
+    events,
+    created: () =>
+      events.filter(event => event.type === "create").map(event => event.err),
+    clear: () => {
+      events.length = 0
+    },
+  }
+}
+
+/**
+ * Creates a sink that buffers events and writes them in batches, once
+ * `size` events are buffered or when flush() is called.
+ *
+ * Writes started by the hooks are not awaited; a rejected write is
+ * ignored, like an exception thrown by a hook. Await flush() to see
+ * write failures.
+ *
+ * @param writer - Destination of the batches
+ * @param options - Batch size
+ * @returns The sink; install its `hooks`
+ *
+ * @example
+ * ```ts
+ * const sink = batchingSink({ write: events => reporter.send(events) })
+ * configure({ hooks: sink.hooks })
+ *
+ * process.on("beforeExit", () => sink.flush())
+ * ```
+ */
+export function batchingSink(
+  writer: BatchWriter,
+  options?: BatchOptions
+): BatchingSink {
+  const size = options?.size ?? 100
+  if (!(Number.isInteger(size) && size > 0)) {
+    throw new Error(`Invalid batch size ${size}: expected a positive integer`)
+  }
+
+  let buffer: ErrorEvent[] = []
+  const flush = async (): Promise<void> => {
+    if (buffer.length === 0) {
+      return
+    }
+    const batch = buffer
+    buffer = []
+    await writer.write(batch)
+  }
+
+  return {
+    hooks: hooksFor(event => {
+      buffer.push(event)
+      if (buffer.length >= size) {
+        flush().catch(() => undefined)
+      }
+    }),
+    get pending() {
+      return buffer.length
+    },
+    flush,
+  }
+}
@@ -0,0 +1,360 @@
+/**
+ * Structured stack frames: parsing, filtering and source-map resolution.
+ * @module stack
+ */
+
+import { type Config, getConfig } from "./config.ts"
+
+/**
+ * One frame of a stack trace.
+ */
+export type StackFrame = {
+  /** Absolute file path (file URLs are converted to paths) */
+  file: string
+  /** Line number (1-based) */
+  line: number
+  /** Column number (1-based) */
+  column: number
+  /** Function name, if the frame has one (e.g., "getUser", "async main") */
+  fn?: string
+}
+
+/**
+ * Frames to drop from captured stack traces.
+ * Unset options use their defaults.
+ */
+export type StackFilter = {
+  /** Drop frames of this library's error construction and the runtime (default: true) */
+  internal?: boolean
+  /** Drop frames in `node_modules` (default: true) */
+  nodeModules?: boolean
+  /**
+   * Drop frames whose file contains a string or matches a pattern
+   * (e.g., "/vendor/", /\.generated\./)
+   */
+  exclude?: readonly (string | RegExp)[]
+}
+
+/**
+ * Options for parsing a stack trace.
+ * Unset options fall back to the global configuration.
+ */
+export type StackOptions = Partial<
+  Pick<Config, "stackFilter" | "sourceMaps" | "stackDepth">
+>
+
+/** Matches a V8 frame line: `at fn (file:line:column)` or `at file:line:column` */
+const FRAME_LINE = /^\s*at (?:(.+?) \()?(.+):(\d+):(\d+)\)?$/
+
+/** Matches the files of runtime frames (e.g., "node:internal/...", "native") */
+const RUNTIME_FILE = /^(?:node:|bun:|internal[:/]|native$)/
+
+/** Matches the bare function name of a frame (e.g., "capture" in "async Object.capture [as run]") */
+const FUNCTION_NAME = /([\w$]+)(?: \[as [\w$]+\])?$/
+
+/** Matches files inside a node_modules directory */
+const NODE_MODULES = /[\\/]node_modules[\\/]/
+
+/** Matches the last source map reference of a generated file */
+const SOURCE_MAPPING_URL = /\/\/[#@] sourceMappingURL=(\S+)\s*$/
+
+/** Prefix of inline (base64 data URL) source maps */
+const INLINE_MAP = /^data:application\/json;(?:charset=utf-8;)?base64,/
+
+/** Matches an optional trailing slash */
+const TRAILING_SLASH = /\/?$/
+
+/** Digits of the base64 VLQ encoding used by source map mappings */
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+
+/** Extra frames captured so filtered traces still reach `stackDepth` */
+const FILTER_HEADROOM = 10
+
+/**
+ * Converts a `file://` URL to a path; other locations are returned as-is.
+ */
+function toPath(location: string): string {
+  return location.startsWith("file://")
+    ? decodeURIComponent(new URL(location).pathname)
+    : location
+}
+
+/** Names of this library's internal functions, by the file of their module */
+const internalFunctions = new Map<string, Set<string>>()
+
+/**
+ * Registers functions of a library module as internal: the `internal`
+ * filter drops their frames. Frames are matched by file and function
+ * name, not by directory, so application code bundled together with the
+ * library keeps its frames.
+ *
+ * @param moduleUrl - `import.meta.url` of the module
+ * @param fns - Functions whose frames are internal
+ * @internal
+ */
+export function markInternal(
+  moduleUrl: string,
+  fns: readonly { readonly name: string }[]
+): void {
+  const file = toPath(moduleUrl)
+  const names = internalFunctions.get(file) ?? new Set()
+  for (const fn of fns) {
+    names.add(fn.name)
+  }
+  internalFunctions.set(file, names)
+}
+
+/**
+ * Checks if a frame belongs to the runtime or to a registered function
+ * of this library.
+ */
+function isInternal({ file, fn }: StackFrame): boolean {
+  if (RUNTIME_FILE.test(file)) {
+    return true
+  }
+  const name = fn?.match(FUNCTION_NAME)?.[1]
+  return name !== undefined && !!internalFunctions.get(file)?.has(name)
+}
+
+/**
+ * Mapping segment of a generated line:
+ * generated column, source index, source line and source column (0-based).
+ */
+type Segment = readonly [number, number, number, number]
+
+/**
+ * Decoded source map of a generated file.
+ */
+type SourceMap = {
+  /** Absolute paths of the original sources */
+  sources: readonly string[]
+  /** Segments of each generated line, by generated column */
+  lines: readonly (readonly Segment[])[]
+}
+
+/** Decoded source maps by generated file (undefined when there is none) */
+const sourceMaps = new Map<string, SourceMap | undefined>()
+
+/**
+ * Reads a local file, or returns undefined if it cannot be read
+ * (missing file, or a runtime without `process.getBuiltinModule`, such
+ * as Node.js before 20.16, where source maps are not applied).
+ */
+function readFile(path: string): string | undefined {
+  try {
+    return globalThis.process
+      ?.getBuiltinModule?.("node:fs")
+      ?.readFileSync(path, "utf8")
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Decodes one line of base64 VLQ values (e.g., "AAgBC") into numbers.
+ */
+function decodeVlq(encoded: string): number[] {
+  const values: number[] = []
+  let value = 0
+  let scale = 1
+  for (const char of encoded) {
+    const digit = BASE64.indexOf(char)
+    value += (digit % 32) * scale
+    if (digit >= 32) {
+      scale *= 32
+      continue
+    }
+    const magnitude = Math.floor(value / 2)
+    values.push(value % 2 === 1 ? -magnitude : magnitude)
+    value = 0
+    scale = 1
+  }
+  return values
+}
+
+/**
+ * Decodes the `mappings` field of a source map into segments per
+ * generated line. Source positions are relative across the whole field;
+ * generated columns restart on every line.
+ */
+function decodeMappings(mappings: string): Segment[][] {
+  let source = 0
+  let sourceLine = 0
+  let sourceColumn = 0
+  return mappings.split(";").map(line => {
+    let column = 0
+    const segments: Segment[] = []
+    for (const encoded of line.split(",")) {
+      const [generated = 0, ...rest] = decodeVlq(encoded)
+      column += generated
+      if (rest.length >= 3) {
+        source += rest[0] ?? 0
+        sourceLine += rest[1] ?? 0
+        sourceColumn += rest[2] ?? 0
+        segments.push([column, source, sourceLine, sourceColumn])
+      }
+    }
+    return segments
+  })
+}
+
+/**
+ * Loads the source map of a generated file from its `sourceMappingURL`
+ * comment: a local `.map` file relative to it, or an inline data URL.
+ */
+function loadSourceMap(file: string): SourceMap | undefined {
+  const code = readFile(file)
+  const reference = code?.match(SOURCE_MAPPING_URL)?.[1]
+  if (reference === undefined) {
+    return undefined
+  }
+  const base = new URL(`file://${encodeURI(file)}`)
+  const inline = INLINE_MAP.test(reference)
+  const mapUrl = inline ? base : new URL(reference, base)
+  try {
+    const json = inline
+      ? atob(reference.replace(INLINE_MAP, ""))
+      : readFile(toPath(mapUrl.href))
+    const map = JSON.parse(json ?? "")
+    const root = map.sourceRoot
+      ? map.sourceRoot.replace(TRAILING_SLASH, "/")
+      : ""
+    return {
+      sources: map.sources.map((source: string) =>
+        toPath(new URL(root + source, mapUrl).href)
+      ),
+      lines: decodeMappings(map.mappings),
+    }
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Maps a frame of generated code to its original source position.
+ * Frames without a source map (or a mapping) are returned unchanged.
+ */
+function resolveFrame(frame: StackFrame): StackFrame {
+  if (!sourceMaps.has(frame.file)) {
+    sourceMaps.set(frame.file, loadSourceMap(frame.file))
+  }
+  const map = sourceMaps.get(frame.file)
+  const segment = map?.lines[frame.line - 1]?.findLast(
+    ([column]) => column <= frame.column - 1
+  )
+  const file = segment && map?.sources[segment[1]]
+  if (segment === undefined || file === undefined) {
+    return frame
+  }
+  return { ...frame, file, line: segment[2] + 1, column: segment[3] + 1 }
+}
+
+/**
+ * Checks if a frame passes the filter.
+ */
+function keepFrame(frame: StackFrame, filter: StackFilter): boolean {
+  const { file } = frame
+  if ((filter.internal ?? true) && isInternal(frame)) {
+    return false
+  }
+  if ((filter.nodeModules ?? true) && NODE_MODULES.test(file)) {
+    return false
+  }
+  return !filter.exclude?.some(pattern =>
+    typeof pattern === "string" ? file.includes(pattern) : pattern.test(file)
+  )
+}
+
+/**
+ * Parses a V8 stack trace (Node.js, Bun, Chrome) into structured frames.
+ *
+ * Frames are filtered with `stackFilter`, limited to `stackDepth` and,
+ * when `sourceMaps` is enabled, mapped back to their original sources
+ * through the `.map` files referenced by the generated files. Lines
+ * without a location (e.g., "at <anonymous>") are skipped.
+ *
+ * @param stack - Stack trace, e.g., from a native `Error`
+ * @param options - Overrides of the global configuration
+ * @returns The frames, innermost first
+ *
+ * @example
+ * ```ts
+ * parseStack(new Error("boom").stack ?? "")
+ * // [{ file: "/app/src/users.ts", line: 42, column: 11, fn: "getUser" }, ...]
+ *
+ * // Every frame, as captured
+ * parseStack(stack, { stackFilter: { internal: false, nodeModules: false } })
+ * ```
+ */
+export function parseStack(
+  stack: string,
+  options?: StackOptions
+): StackFrame[] {
+  const config = { ...getConfig(), ...options }
+  const frames: StackFrame[] = []
+  for (const line of stack.split("\n")) {
+    const match = line.match(FRAME_LINE)
+    if (match) {
+      const [, fn, file = "", lineNumber, column] = match
+      const frame = {
+        file: toPath(file),
+        line: Number(lineNumber),
+        column: Number(column),
+        ...(fn !== undefined && { fn }),
+      }
+      if (keepFrame(frame, config.stackFilter)) {
+        frames.push(frame)
+      }
+    }
+  }
+  const kept = frames.slice(0, config.stackDepth)
+  return config.sourceMaps ? kept.map(frame => resolveFrame(frame)) : kept
+}
+
+/**
+ * Number of frames to capture so that `stackDepth` frames remain after
+ * filtering.
+ *
+ * @param config - Effective configuration
+ * @returns Value for `Error.stackTraceLimit`
+ * @internal
+ */
+export function captureLimit(config: Readonly<Config>): number {
+  return config.stackDepth + FILTER_HEADROOM
+}
+
+/**
+ * Renders a frame as in V8 traces: `fn (file:line:column)`, or
+ * `file:line:column` for anonymous frames.
+ *
+ * @param frame - Frame to render
+ * @param cwd - Directory that file paths are shown relative to, if any
+ * @returns The rendered frame, without the leading "at "
+ * @internal
+ */
+export function formatFrame(frame: StackFrame, cwd?: string): string {
+  const file =
+    cwd && frame.file.startsWith(`${cwd}/`)
+      ? frame.file.slice(cwd.length + 1)
+      : frame.file
+  const location = `${file}:${frame.line}:${frame.column}`
+  return frame.fn === undefined ? location : `${frame.fn} (${location})`
+}
+
+/**
+ * Rebuilds a stack trace string from its header line and frames.
+ *
+ * @param header - First line of the trace (e.g., "Error: User not found")
+ * @param frames - Frames to list
+ * @returns V8-style stack trace
+ * @internal
+ */
+export function renderStack(
+  header: string,
+  frames: readonly StackFrame[]
+): string {
+  return [header, ...frames.map(frame => `    at ${formatFrame(frame)}`)].join(
+    "\n"
+  )
+}
@@ -0,0 +1,237 @@
+/**
+ * Test matchers for error set values, registered through `expect.extend`.
+ * Available as `@takinprofit/errorset/testing`.
+ * @module testing
+ */
+
+import { causes, hasCause } from "./cause.ts"
+import { format } from "./format.ts"
+import { type Err, isErr } from "./types.ts"
+
+/**
+ * Matchers added to `expect` by this module.
+ *
+ * @typeParam R - Return type of each matcher (depends on the test runner)
+ */
+export interface ErrorSetMatchers<R = unknown> {
+  /** Passes if the value is an error set value */
+  toBeErr(): R
+  /** Passes if the value is an error of the set (e.g., `UserError`) */
+  toBeErrOf(set: (value: unknown) => boolean): R
+  /**
+   * Passes if the value is an error of the kind (e.g.,
+   * `UserError.not_found`) and, if given, its data equals `data`
+   */
+  toBeErrKind(
+    kind: (value: unknown) => boolean,
+    data?: Record<string, unknown>
+  ): R
+  /** Passes if any cause in the error's chain passes the guard */
+  toHaveCause(guard: (value: unknown) => boolean): R
+  /** Passes if the value is not an error set value */
+  toBeOk(): R
+}
+
+declare module "bun:test" {
+  // biome-ignore lint/correctness/noUnusedVariables: must match Bun's declaration
+  interface Matchers<T> extends ErrorSetMatchers<void> {}
+  // Asymmetric matchers stand in for any value, like Bun's own
+  // biome-ignore lint/suspicious/noExplicitAny: see above
+  interface AsymmetricMatchers extends ErrorSetMatchers<any> {}
+}
+
+/**
+ * Parts of the matcher context (`this`) shared by Bun, Jest and Vitest.
+ */
+type MatcherContext = {
+  readonly isNot: boolean
+  equals(a: unknown, b: unknown): boolean
+  readonly utils: {
+    stringify(value: unknown): string
+    printReceived(value: unknown): string
+    printExpected(value: unknown): string
+    matcherHint(
+      name: string,
+      received?: string,
+      expected?: string,
+      options?: { isNot?: boolean }
+    ): string
+  }
+}
+
+/**
+ * Result of a matcher.
+ */
+type MatcherResult = {
+  pass: boolean
+  message: () => string
+}
+
+/**
+ * Renders a value for a failure message: errors with the pretty format,
+ * other values with the runner's printer.
+ */
+function show(ctx: MatcherContext, value: unknown): string {
+  return isErr(value)
+    ? format(value, { format: "pretty", colors: false })
+    : ctx.utils.printReceived(value)
+}
+
+/**
+ * Describes a guard: a kind guard by its kind, a set by its kinds.
+ */
+function describeGuard(guard: (value: unknown) => boolean): string {
+  if (Object.hasOwn(guard, "toString")) {
+    return `kind "${String(guard)}"`
+  }
+  const kinds = (guard as { kinds?: readonly string[] }).kinds
+  if (Array.isArray(kinds)) {
+    return `set with kinds ${kinds.map(kind => `"${kind}"`).join(", ")}`
+  }
+  return guard.name ? `guard ${guard.name}` : "guard"
+}
+
+/**
+ * Lists the fields whose values differ, expected first.
+ */
+function diffData(
+  ctx: MatcherContext,
+  expected: Record<string, unknown>,
+  received: Record<string, unknown>
+): string {
+  const lines = ["- Expected data", "+ Received data", ""]
+  const keys = new Set([...Object.keys(expected), ...Object.keys(received)])
+  for (const key of keys) {
+    if (!ctx.equals(received[key], expected[key])) {
+      if (key in expected) {
+        lines.push(`- ${key}: ${ctx.utils.stringify(expected[key])}`)
+      }
+      if (key in received) {
+        lines.push(`+ ${key}: ${ctx.utils.stringify(received[key])}`)
+      }
+    }
+  }
+  return lines.join("\n")
+}
+
+/**
+ * Builds a matcher result with a message that reads the same for
+ * `expect(x).toBeErr()` and `expect(x).not.toBeErr()`.
+ */
+function result(
+  ctx: MatcherContext,
+  name: string,
+  pass: boolean,
+  expected: string,
+  received: unknown,
+  detail?: string
+): MatcherResult {
+  return {
+    pass,
+    message: () => {
+      const lines = [
+        ctx.utils.matcherHint(name, undefined, undefined, {
+          isNot: ctx.isNot,
+        }),
+        "",
+        `Expected: ${ctx.isNot ? "not " : ""}${expected}`,
+        `Received: ${show(ctx, received)}`,
+      ]
+      if (detail) {
+        lines.push("", detail)
+      }
+      return lines.join("\n")
+    },
+  }
+}
+
+/**
+ * Matcher implementations, for `expect.extend(errorSetMatchers)` in
+ * runners without a global `expect`.
+ */
+export const errorSetMatchers = {
+  toBeErr(this: MatcherContext, received: unknown): MatcherResult {
+    return result(
+      this,
+      "toBeErr",
+      isErr(received),
+      "an error set value",
+      received
+    )
+  },
+
+  toBeErrOf(
+    this: MatcherContext,
+    received: unknown,
+    set: (value: unknown) => boolean
+  ): MatcherResult {
+    return result(
+      this,
+      "toBeErrOf",
+      set(received),
+      `an error of the ${describeGuard(set)}`,
+      received
+    )
+  },
+
+  toBeErrKind(
+    this: MatcherContext,
+    received: unknown,
+    kind: (value: unknown) => boolean,
+    data?: Record<string, unknown>
+  ): MatcherResult {
+    const expected =
+      data === undefined
+        ? `an error of ${describeGuard(kind)}`
+        : `an error of ${describeGuard(kind)} with data ${this.utils.printExpected(data)}`
+    if (!kind(received)) {
+      return result(this, "toBeErrKind", false, expected, received)
+    }
+    const actual = (received as Err).data
+    const pass = data === undefined || this.equals(actual, data)
+    const detail = pass || !data ? undefined : diffData(this, data, actual)
+    return result(this, "toBeErrKind", pass, expected, received, detail)
+  },
+
+  toHaveCause(
+    this: MatcherContext,
+    received: unknown,
+    guard: (value: unknown) => boolean
+  ): MatcherResult {
+    const expected = `an error with a cause matching ${describeGuard(guard)}`
+    if (!(isErr(received) || received instanceof Error)) {
+      return result(this, "toHaveCause", false, expected, received)
+    }
+    const chain = [...causes(received)].map(
+      (cause, index) => `  ${index + 1}. ${show(this, cause)}`
+    )
+    const detail =
+      chain.length > 0 ? `Causes:\n${chain.join("\n")}` : "Causes: none"
+    return result(
+      this,
+      "toHaveCause",
+      hasCause(received, guard),
+      expected,
+      received,
+      detail
+    )
+  },
+
+  toBeOk(this: MatcherContext, received: unknown): MatcherResult {
+    return result(this, "toBeOk", !isErr(received), "a success value", received)
+  },
+}
+
+/**
+ * An `expect` that accepts custom matchers.
+ */
+type Extendable = { extend(matchers: typeof errorSetMatchers): void }
+
+// Register with the runner's global `expect` (Jest, Vitest with globals),
+// or with Bun's, which is only available as an import
+const target =
+  (globalThis as { expect?: Extendable }).expect ??
+  ("Bun" in globalThis
+    ? ((await import("bun:test")).expect as unknown as Extendable)
+    : undefined)
+target?.extend(errorSetMatchers)
@@ -3,7 +3,32 @@
  * @module types
  */
 
-import { type Config, getConfig } from "./config.ts"
+import { type Config, type Hooks, resolveConfig } from "./config.ts"
+import { ErrorSetException } from "./exception.ts"
+import { format, toJsonObject } from "./format.ts"
+import {
+  type KindMeta,
+  type KindMetaMap,
+  META,
+  metaOf,
+  NO_META,
+} from "./meta.ts"
+import { type ProblemTypeOptions, parseProblemDetails } from "./problem.ts"
+import { RAW_DATA, redactData } from "./redact.ts"
+import {
+  isSerializedErr,
+  mapData,
+  parseSerialized,
+  type SerializedErr,
+  type SerializedForeignCause,
+} from "./serialize.ts"
+import {
+  captureLimit,
+  markInternal,
+  parseStack,
+  renderStack,
+  type StackFrame,
+} from "./stack.ts"
 
 /**
  * Unique symbol used to brand error objects.
@@ -24,6 +49,60 @@ export type ERR = typeof ERR
  */
 export const INSPECT: unique symbol = Symbol.for("nodejs.util.inspect.custom")
 
+/**
+ * Symbol for the programmatic constructor attached to kind functions.
+ * Lets library helpers (e.g., adapters) create errors from a message
+ * and data computed at runtime instead of a template literal.
+ *
+ * @internal
+ */
+export const CREATE: unique symbol = Symbol("errorset.create")
+
+/**
+ * Symbol under which errors keep their set's configuration overrides,
+ * so copies (e.g., aggregate children) render like the original.
+ *
+ * @internal
+ */
+const SET_CONFIG: unique symbol = Symbol("errorset.config")
+
+/**
+ * Symbol under which errors keep the `config` option of the call that
+ * created them.
+ *
+ * @internal
+ */
+const CALL_CONFIG: unique symbol = Symbol("errorset.callConfig")
+
+/**
+ * Source of the current request-scoped context, installed by the
+ * `context` module so the core does not depend on `node:async_hooks`.
+ */
+let contextSource: () => Readonly<Record<string, unknown>> | undefined = () =>
+  undefined
+
+/**
+ * Installs the source of the request-scoped context.
+ *
+ * @param source - Returns the context of the current scope, if any
+ * @internal
+ */
+export function setContextSource(
+  source: () => Readonly<Record<string, unknown>> | undefined
+): void {
+  contextSource = source
+}
+
+/**
+ * Programmatic error constructor stored under `CREATE` on kind functions.
+ * @internal
+ */
+export type ErrConstructor<Kind extends string, Data> = (
+  message: string,
+  data: Data,
+  options?: ErrorOptions
+) => Err<Kind, Data & Record<string, unknown>>
+
 /**
  * Core error type representing a domain-bound error value.
  *
@@ -41,18 +120,39 @@ export type Err<
 > = {
   /** Brand property identifying this as an error set value */
   readonly [ERR]: true
+  /** Name of the error set that created this error (e.g., "UserError") */
+  readonly set: string
   /** The error kind/tag (e.g., "not_found", "validation") */
   readonly kind: Kind
   /** Human-readable error message */
   readonly message: string
   /** Extracted context data from template literal holes */
   readonly data: Data
-  /** Optional wrapped error that caused this error */
-  readonly cause?: Err<string, Record<string, unknown>>
-  /** Optional timestamp when the error was created */
-  readonly timestamp?: number
+  /**
+   * Request-scoped context (e.g., correlation or tenant IDs) captured
+   * from `withErrorContext()` when the error was created, kept apart
+   * from `data`
+   */
+  readonly context?: Readonly<Record<string, unknown>>
+  /**
+   * Optional wrapped cause: another error set value, a native `Error`,
+   * or any other thrown value, kept as-is
+   */
+  readonly cause?: unknown
+  /**
+   * Optional timestamp when the error was created
+   * (epoch milliseconds or ISO string, per `timestampFormat`)
+   */
+  readonly timestamp?: number | string
   /** Optional stack trace (V8 engines only, when enabled) */
   readonly stack?: string
+  /**
+   * Structured frames of the stack trace, filtered with `stackFilter`
+   * and source-mapped when `sourceMaps` is enabled
+   */
+  readonly frames?: readonly StackFrame[]
+  /** Location within an aggregate (e.g., "items[3].email"), set by `collect` */
+  readonly path?: string
 }
 
 /**
@@ -94,8 +194,13 @@ export type ErrorSetConfig = Partial<Config>
  * Options for error creation.
  */
 export type ErrorOptions = {
-  /** Optional wrapped error that caused this error */
-  cause?: Err<string, Record<string, unknown>>
+  /** Optional wrapped cause (`Err`, native `Error`, or any thrown value) */
+  cause?: unknown
+  /**
+   * Configuration for this error only, layered over the global, per-set
+   * and scoped configuration (e.g., `{ includeStack: true }`)
+   */
+  config?: ErrorSetConfig
 }
 
 /**
@@ -139,6 +244,54 @@ export type HasDuplicates<T extends readonly string[]> = T extends readonly [
 export type NoDuplicates<T extends readonly string[]> =
   HasDuplicates<T> extends true ? never : T
 
+/**
+ * Type-only brand that carries a per-kind data map.
+ * Never exists at runtime.
+ */
+declare const KIND_DATA: unique symbol
+
+/**
+ * Entity type of error sets created with `initPerKind()`.
+ * Wraps a map from each kind to its own data shape.
+ *
+ * @typeParam M - Map from kind name to that kind's data type
+ */
+export type PerKindData<M> = {
+  readonly [KIND_DATA]: M
+}
+
+/**
+ * Data carried by errors of the given kinds.
+ * `Partial<T>` for entity-bound sets, the exact shape for per-kind sets.
+ */
+export type KindData<Kinds extends string, T> = T extends PerKindData<
+  infer M extends Record<Kinds, Record<string, unknown>>
+>
+  ? M[Kinds]
+  : Partial<T>
+
+/**
+ * Error type for the given kinds of a set.
+ *
+ * For entity-bound sets this is `Err<Kinds, Partial<T>>`. For per-kind
+ * sets it is a union with each kind's exact data, so narrowing on `kind`
+ * also narrows `data`.
+ *
+ * @example
+ * ```ts
+ * type A = SetErr<"a" | "b", User>  // Err<"a" | "b", Partial<User>>
+ * type B = SetErr<"a" | "b", PerKindData<{ a: { id: string }; b: {} }>>
+ * // Err<"a", { id: string }> | Err<"b", {}>
+ * ```
+ */
+export type SetErr<Kinds extends string, T> = T extends PerKindData<
+  infer M extends Record<Kinds, Record<string, unknown>>
+>
+  ? Kinds extends string
+    ? Err<Kinds, M[Kinds]>
+    : never
+  : Err<Kinds, Partial<T>>
+
 /**
  * Builder type returned by errorSet() that allows binding the entity type.
  *
@@ -165,6 +318,38 @@ export type ErrorSetBuilder<Kinds extends readonly string[]> = {
   init<T extends Record<string, unknown>>(
     config?: ErrorSetConfig
   ): ErrorSet<Kinds[number], T>
+
+  /**
+   * Initialize the error set with a separate data shape for each kind.
+   *
+   * Guards and handlers narrow to the exact data of each kind instead of
+   * `Partial<T>`. Creators take the kind's full data, which is stored on
+   * the error as-is; template holes pick fields for the message.
+   *
+   * @typeParam M - Map from each kind to its data type (`{}` for none)
+   * @param config - Optional configuration overrides
+   * @returns Complete error set with per-kind data
+   *
+   * @example
+   * ```ts
+   * const FormError = errorSet("FormError", ["not_found", "validation"])
+   *   .initPerKind<{
+   *     not_found: { id: string }
+   *     validation: { field: string; reason: string }
+   *   }>()
+   *
+   * const err = FormError.validation`${"field"} is invalid`({
+   *   field: "email",
+   *   reason: "missing @",
+   * })
+   * if (FormError.validation(err)) {
+   *   err.data.reason // string, no null check needed
+   * }
+   * ```
+   */
+  initPerKind<M extends { [K in Kinds[number]]: Record<string, unknown> }>(
+    config?: ErrorSetConfig
+  ): ErrorSet<Kinds[number], PerKindData<M>>
 }
 
 /**
@@ -220,14 +405,54 @@ export type KindConstructor<
   ): ErrorCreator<Kind, T, K>
 }
 
+/**
+ * Function returned by the template literal of a per-kind set.
+ * Takes the kind's full data and optional error options.
+ */
+export type KindDataCreator<
+  Kind extends string,
+  D extends Record<string, unknown>,
+> = (data: D, options?: ErrorOptions) => Err<Kind, D>
+
+/**
+ * Tagged template function for a kind of a per-kind set.
+ *
+ * Template holes are constrained to the kind's own fields. Without holes,
+ * kinds with no data return an error that can be used directly (or called
+ * with `({}, { cause })`); kinds with data always return a creator.
+ */
+export type KindDataConstructor<
+  Kind extends string,
+  D extends Record<string, unknown>,
+> = {
+  // Overload for no template holes
+  (
+    strings: TemplateStringsArray
+  ): Record<string, never> extends D
+    ? Err<Kind, D> & KindDataCreator<Kind, D>
+    : KindDataCreator<Kind, D>
+  // Overload for template holes
+  <K extends keyof D & string>(
+    strings: TemplateStringsArray,
+    ...keys: K[]
+  ): KindDataCreator<Kind, D>
+}
+
 /**
  * Kind-level guard function type.
  * Checks if a value is a specific error kind.
+ *
+ * The default guard matches on kind alone, so errors of the same kind
+ * from another set also pass. Use `.strict` to also require that the
+ * error was created by this set.
  */
 export type KindGuard<
   Kind extends string,
   T extends Record<string, unknown>,
-> = (value: unknown) => value is Err<Kind, Partial<T>>
+> = ((value: unknown) => value is SetErr<Kind, T>) & {
+  /** Strict guard that also checks the owning set */
+  readonly strict: (value: unknown) => value is SetErr<Kind, T>
+}
 
 /**
  * Dual-purpose kind function that acts as both:
@@ -237,25 +462,151 @@ export type KindGuard<
 export type KindFunction<
   Kind extends string,
   T extends Record<string, unknown>,
-> = KindConstructor<Kind, T> & KindGuard<Kind, T>
+> = (T extends PerKindData<
+  infer M extends Record<Kind, Record<string, unknown>>
+>
+  ? KindDataConstructor<Kind, M[Kind]>
+  : KindConstructor<Kind, T>) &
+  KindGuard<Kind, T> & {
+    /** Metadata declared for this kind (empty if none) */
+    readonly meta: Readonly<KindMeta>
+  }
+
+/**
+ * Resolves the effective configuration for an error: the global
+ * configuration with the per-set, scoped and per-call layers on top.
+ * Resolved on every use, so scoped overrides apply where they are active.
+ *
+ * @param instanceConfig - Per-set configuration overrides
+ * @param callConfig - Per-call configuration overrides
+ * @internal
+ */
+function effectiveConfig(
+  instanceConfig?: Partial<Config>,
+  callConfig?: Partial<Config>
+): Readonly<Config> {
+  return resolveConfig(instanceConfig, callConfig)
+}
+
+/**
+ * Applies the redaction rules of every configuration layer to error data.
+ * Rules of each layer add to the ones below instead of replacing them.
+ *
+ * @param data - Extracted context data
+ * @param instanceConfig - Per-set configuration overrides
+ * @param callConfig - Per-call configuration overrides
+ * @returns Redacted copy, or `data` itself when nothing matched
+ * @internal
+ */
+function redactFor(
+  data: Record<string, unknown>,
+  instanceConfig?: Partial<Config>,
+  callConfig?: Partial<Config>
+): Record<string, unknown> {
+  const config = effectiveConfig(instanceConfig, callConfig)
+  return redactData(data, config.redact, config.redactStyle)
+}
+
+/**
+ * Reads the request-scoped context for a new error, redacted with the
+ * same rules as its data.
+ *
+ * @param instanceConfig - Per-set configuration overrides
+ * @param callConfig - Per-call configuration overrides
+ * @returns Frozen context copy, or undefined outside a scope or for an
+ *   empty one
+ * @internal
+ */
+function currentContext(
+  instanceConfig?: Partial<Config>,
+  callConfig?: Partial<Config>
+): Record<string, unknown> | undefined {
+  const context = contextSource()
+  if (context === undefined || Object.keys(context).length === 0) {
+    return undefined
+  }
+  return Object.freeze(redactFor({ ...context }, instanceConfig, callConfig))
+}
+
+/**
+ * Calls the hooks for an event from every configuration layer of the
+ * error: global, its set's, the enclosing scope's, then the ones passed
+ * with the call that created it.
+ * Hooks only observe: return values are ignored and exceptions swallowed.
+ *
+ * @param event - Hook to call
+ * @param args - Hook arguments, starting with the error
+ * @internal
+ */
+function runHooks<H extends keyof Hooks>(
+  event: H,
+  ...args: Parameters<NonNullable<Hooks[H]>>
+): void {
+  const [err] = args
+  const hidden = err as {
+    [SET_CONFIG]?: Partial<Config>
+    [CALL_CONFIG]?: Partial<Config>
+  }
+  const { hooks } = resolveConfig(hidden[SET_CONFIG], hidden[CALL_CONFIG])
+  const hook = hooks[event] as ((...params: unknown[]) => void) | undefined
+  try {
+    hook?.(...args)
+  } catch {
+    // Reporting must never break the code that produced the error
+  }
+}
+
+/**
+ * Stamps the creation time on the target object when enabled.
+ * The time is read from the configured clock and stored as epoch
+ * milliseconds or an ISO string depending on `timestampFormat`.
+ *
+ * @param target - Object to attach the timestamp to
+ * @param instanceConfig - Per-set configuration overrides
+ * @param callConfig - Per-call configuration overrides
+ * @internal
+ */
+function stampTimestamp(
+  target: object,
+  instanceConfig?: Partial<Config>,
+  callConfig?: Partial<Config>
+): void {
+  const config = effectiveConfig(instanceConfig, callConfig)
+
+  if (!config.includeTimestamp) {
+    return
+  }
+
+  const now = config.clock()
+  Object.defineProperty(target, "timestamp", {
+    value: config.timestampFormat === "iso" ? new Date(now).toISOString() : now,
+    writable: false,
+    enumerable: true,
+    configurable: false,
+  })
+}
 
 /**
  * Captures a stack trace on the target object if available (V8 engines only).
  * This is a zero-cost operation in non-V8 environments.
  *
+ * The raw trace is parsed into `frames`, which are filtered, limited to
+ * `stackDepth` and source-mapped per the configuration; `stack` is
+ * rebuilt from them.
+ *
  * @param target - Object to attach stack trace to
  * @param constructorOpt - Function to exclude from stack trace
+ * @param instanceConfig - Per-set configuration overrides
+ * @param callConfig - Per-call configuration overrides
  * @internal
  */
 function captureStack(
   target: object,
   constructorOpt?: unknown,
-  instanceConfig?: Partial<Config>
+  instanceConfig?: Partial<Config>,
+  callConfig?: Partial<Config>
 ): void {
-  const globalConfig = getConfig()
-  const config = instanceConfig
-    ? { ...globalConfig, ...instanceConfig }
-    : globalConfig
+  const config = effectiveConfig(instanceConfig, callConfig)
 
   if (!config.includeStack) {
     return
@@ -263,18 +614,335 @@ function captureStack(
 
   // Check if Error.captureStackTrace is available (V8 engines: Node.js, Chrome, Bun)
   if (typeof Error.captureStackTrace === "function") {
-    // Save and set stack trace limit
+    // Save and set stack trace limit, with room for filtered frames
     const originalLimit = Error.stackTraceLimit
-    Error.stackTraceLimit = config.stackDepth
+    Error.stackTraceLimit = captureLimit(config)
 
+    const holder = target as { stack?: string }
     Error.captureStackTrace(
-      target,
+      holder,
       constructorOpt as ((...args: unknown[]) => unknown) | undefined
     )
+    // Bun drops every frame when it cannot find constructorOpt (e.g.,
+    // after inlining); the internal filter removes our frames instead
+    if (constructorOpt !== undefined && !holder.stack?.includes("\n")) {
+      Error.captureStackTrace(holder)
+    }
 
     // Restore original limit
     Error.stackTraceLimit = originalLimit
+
+    const raw = holder.stack ?? ""
+    const frames = parseStack(raw, config)
+    holder.stack = renderStack(raw.split("\n", 1)[0] ?? "Error", frames)
+    Object.defineProperty(target, "frames", {
+      value: frames,
+      writable: false,
+      enumerable: false,
+      configurable: false,
+    })
+  }
+}
+
+// Frames of error construction, dropped by the internal stack filter
+markInternal(import.meta.url, [
+  captureStack,
+  buildErr,
+  fromThrown,
+  captureSync,
+  captureAsync,
+])
+
+/**
+ * Records the owning error set name on an error value.
+ * The property is immutable so strict guards can rely on it.
+ *
+ * @param target - Error object or callable error to tag
+ * @param name - The error set name
+ * @internal
+ */
+function attachSetName(target: object, name: string): void {
+  Object.defineProperty(target, "set", {
+    value: name,
+    writable: false,
+    enumerable: true,
+    configurable: false,
+  })
+}
+
+/**
+ * Links an error value to its kind's metadata (read by `metaOf`).
+ * The property is hidden so it stays out of logs and JSON.
+ *
+ * @param target - Error object or callable error
+ * @param meta - The kind's metadata
+ * @internal
+ */
+function attachMeta(target: object, meta: Readonly<KindMeta>): void {
+  Object.defineProperty(target, META, {
+    value: meta,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+}
+
+/**
+ * Attaches rendering methods to an error value.
+ * `toString()` and the debugger inspect hook render using the effective
+ * format (global config merged with per-set overrides at call time),
+ * while `toJSON()` always returns the plain JSON representation.
+ *
+ * @param target - Error object or callable error to decorate
+ * @param name - The error set name (for pretty output)
+ * @param instanceConfig - Per-set configuration overrides
+ * @param callConfig - Per-call configuration overrides
+ * @internal
+ */
+function attachRenderers(
+  target: object,
+  name: string,
+  instanceConfig?: Partial<Config>,
+  callConfig?: Partial<Config>
+): void {
+  const err = target as Err
+  const render = (): string => {
+    const config = effectiveConfig(instanceConfig, callConfig)
+    return format(err, { format: config.format, colors: config.colors, name })
+  }
+
+  Object.defineProperty(target, "toString", {
+    value: render,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+  Object.defineProperty(target, "toJSON", {
+    value: () => toJsonObject(err),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+  Object.defineProperty(target, INSPECT, {
+    value: render,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+  if (instanceConfig) {
+    Object.defineProperty(target, SET_CONFIG, {
+      value: instanceConfig,
+      writable: false,
+      enumerable: false,
+      configurable: false,
+    })
+  }
+  if (callConfig) {
+    Object.defineProperty(target, CALL_CONFIG, {
+      value: callConfig,
+      writable: false,
+      enumerable: false,
+      configurable: false,
+    })
+  }
+}
+
+/**
+ * Copies an error with its location within an aggregate and, optionally,
+ * new data. The copy keeps the brand, set, metadata, raw data and
+ * rendering settings, so guards and handlers treat it like the original.
+ * Callable errors are copied to plain error objects.
+ *
+ * @param err - Error to copy
+ * @param path - Location within the aggregate (e.g., "items[3].email")
+ * @param data - Data of the copy (defaults to the original data)
+ * @returns The copy with `path` set
+ * @internal
+ */
+export function withPath<E extends Err>(
+  err: E,
+  path: string,
+  data: E["data"] = err.data
+): E {
+  const hidden = err as E & {
+    [RAW_DATA]?: Record<string, unknown>
+    [SET_CONFIG]?: Partial<Config>
+    [CALL_CONFIG]?: Partial<Config>
+  }
+  const copy = {
+    [ERR]: true,
+    kind: err.kind,
+    message: err.message,
+    data,
+    ...(err.context !== undefined && { context: err.context }),
+    ...(err.cause !== undefined && { cause: err.cause }),
+    ...(err.timestamp !== undefined && { timestamp: err.timestamp }),
+    ...(err.stack !== undefined && { stack: err.stack }),
+    ...(err.frames !== undefined && { frames: err.frames }),
+    path,
+  } as Err
+
+  attachSetName(copy, err.set)
+  attachMeta(copy, metaOf(err))
+  if (hidden[RAW_DATA] !== undefined) {
+    Object.defineProperty(copy, RAW_DATA, {
+      value: hidden[RAW_DATA],
+      writable: false,
+      enumerable: false,
+      configurable: false,
+    })
+  }
+  attachRenderers(copy, err.set, hidden[SET_CONFIG], hidden[CALL_CONFIG])
+  return copy as E
+}
+
+/**
+ * Settings for building an error value.
+ * @internal
+ */
+type BuildSettings = {
+  /** Error options passed by the caller (e.g., cause) */
+  options?: ErrorOptions
+  /** Per-set configuration overrides */
+  instanceConfig?: Partial<Config>
+  /** Function to exclude from the captured stack trace */
+  constructorOpt?: unknown
+  /** Metadata declared for the kind */
+  meta?: Readonly<KindMeta>
+  /** Unredacted data, kept for `unsafeData` */
+  rawData?: Record<string, unknown>
+}
+
+/**
+ * Builds a branded error object with its owning set, rendering methods,
+ * and optional timestamp and stack trace.
+ *
+ * @param kind - The error kind
+ * @param name - The error set name
+ * @param message - The final error message
+ * @param data - The extracted context data, already redacted
+ * @param settings - Error options, per-set config and stack exclusion
+ * @returns A branded error value
+ * @internal
+ */
+function buildErr<Kind extends string, Data extends Record<string, unknown>>(
+  kind: Kind,
+  name: string,
+  message: string,
+  data: Record<string, unknown>,
+  settings: BuildSettings
+): Err<Kind, Data> {
+  const {
+    options,
+    instanceConfig,
+    constructorOpt,
+    meta = NO_META,
+    rawData = data,
+  } = settings
+
+  const callConfig = options?.config
+  const context = currentContext(instanceConfig, callConfig)
+  // Hooks and callers may not change the error: data is a frozen copy
+  const frozenData = Object.freeze({ ...data })
+  const err = {
+    [ERR]: true,
+    kind,
+    message,
+    data: frozenData as Data,
+    ...(context !== undefined && { context }),
+    ...(options?.cause !== undefined && { cause: options.cause }),
+  } as Err<Kind, Data>
+
+  // Record the owning set for serialization and strict guards
+  attachSetName(err, name)
+  attachMeta(err, meta)
+
+  // Keep the raw values of redacted fields out of sight
+  if (rawData !== data) {
+    Object.defineProperty(err, RAW_DATA, {
+      value: Object.freeze({ ...rawData }),
+      writable: false,
+      enumerable: false,
+      configurable: false,
+    })
+  }
+
+  // Custom inspection for Node.js debuggers, toString() and toJSON()
+  attachRenderers(err, name, instanceConfig, callConfig)
+
+  // Stamp creation time if enabled
+  stampTimestamp(err, instanceConfig, callConfig)
+
+  // Capture stack trace if enabled (V8 engines only)
+  captureStack(err, constructorOpt, instanceConfig, callConfig)
+
+  Object.freeze(err)
+  runHooks("onCreate", err)
+  return err
+}
+
+/**
+ * Rebuilds a branded error value (and its cause chain, and the errors
+ * its data holds) from its serialized form. Timestamp and stack are
+ * restored, not re-captured.
+ *
+ * @param payload - Validated serialized error
+ * @param instanceConfig - Per-set configuration overrides for rendering
+ * @param meta - Metadata of the error's kind
+ * @returns A branded error that passes `isErr` and the set guards
+ * @internal
+ */
+function rehydrate(
+  payload: SerializedErr,
+  instanceConfig?: Partial<Config>,
+  meta: Readonly<KindMeta> = NO_META
+): Err {
+  const err = {
+    [ERR]: true,
+    kind: payload.kind,
+    message: payload.message,
+    data: mapData(payload.data, value =>
+      isSerializedErr(value) ? rehydrate(value) : value
+    ),
+    ...(payload.path !== undefined && { path: payload.path }),
+    ...(payload.context !== undefined && { context: { ...payload.context } }),
+    ...(payload.cause !== undefined && {
+      cause:
+        "set" in payload.cause
+          ? rehydrate(payload.cause)
+          : rehydrateForeignCause(payload.cause),
+    }),
+    ...(payload.timestamp !== undefined && { timestamp: payload.timestamp }),
+    ...(payload.stack !== undefined && { stack: payload.stack }),
+    ...(payload.frames !== undefined && {
+      frames: payload.frames.map(frame => ({ ...frame })),
+    }),
+  } as Err
+
+  attachSetName(err, payload.set)
+  attachMeta(err, meta)
+  attachRenderers(err, payload.set, instanceConfig)
+  return err
+}
+
+/**
+ * Rebuilds a native `Error` from a serialized foreign cause.
+ *
+ * @param payload - Validated serialized foreign cause
+ * @returns Native error with the original name, message, stack and cause
+ * @internal
+ */
+function rehydrateForeignCause(payload: SerializedForeignCause): Error {
+  const error = new Error(payload.message)
+  error.name = payload.name
+  error.stack = payload.stack ?? `${payload.name}: ${payload.message}`
+  if (payload.cause !== undefined) {
+    error.cause =
+      "set" in payload.cause
+        ? rehydrate(payload.cause)
+        : rehydrateForeignCause(payload.cause)
   }
+  return error
 }
 
 /**
@@ -285,6 +953,9 @@ function captureStack(
  *
  * @param kind - The error kind string
  * @param name - The error set name (for debugging)
+ * @param instanceConfig - Per-set configuration overrides
+ * @param perKind - Whether creators keep the kind's full data
+ * @param meta - Metadata declared for the kind
  * @returns A dual-purpose kind function
  *
  * @example
@@ -308,7 +979,9 @@ export function createKindFunction<
 >(
   kind: Kind,
   name: string,
-  instanceConfig?: Partial<Config>
+  instanceConfig?: Partial<Config>,
+  perKind = false,
+  meta: Readonly<KindMeta> = NO_META
 ): KindFunction<Kind, T> {
   // The dual-purpose function
   const kindFn = <K extends keyof T & string>(
@@ -332,20 +1005,24 @@ export function createKindFunction<
         const data = {} as Record<string, never>
 
         // Create callable error function
-        const callableErr = (options?: ErrorOptions) => {
-          const newErr = {
-            [ERR]: true,
+        // Per-kind sets call it like a creator: (data, options?)
+        const callableErr = (...args: [unknown?, ErrorOptions?]) => {
+          const [callData, options] = perKind
+            ? [{ ...(args[0] as Record<string, unknown> | undefined) }, args[1]]
+            : [data, args[0] as ErrorOptions | undefined]
+          return buildErr<Kind, Record<string, unknown>>(
             kind,
+            name,
             message,
-            data,
-            ...(options?.cause !== undefined && { cause: options.cause }),
-            [INSPECT]() {
-              return `${name}.${kind} ${JSON.stringify(data)}`
-            },
-          } as Err<Kind, Record<string, never>>
-
-          captureStack(newErr, callableErr, instanceConfig)
-          return newErr
+            redactFor(callData, instanceConfig, options?.config),
+            {
+              options,
+              instanceConfig,
+              constructorOpt: callableErr,
+              meta,
+              rawData: callData,
+            }
+          )
         }
 
         // Attach error properties to the function itself
@@ -368,24 +1045,33 @@ export function createKindFunction<
           configurable: false,
         })
         Object.defineProperty(callableErr, "data", {
-          value: data,
+          value: Object.freeze(data),
           writable: false,
           enumerable: true,
           configurable: false,
         })
-        Object.defineProperty(callableErr, INSPECT, {
-          value() {
-            return `${name}.${kind} ${JSON.stringify(data)}`
-          },
-          writable: false,
-          enumerable: false,
-          configurable: false,
-        })
+        const context = currentContext(instanceConfig)
+        if (context !== undefined) {
+          Object.defineProperty(callableErr, "context", {
+            value: context,
+            writable: false,
+            enumerable: true,
+            configurable: false,
+          })
+        }
+        attachSetName(callableErr, name)
+        attachMeta(callableErr, meta)
+        attachRenderers(callableErr, name, instanceConfig)
+        stampTimestamp(callableErr, instanceConfig)
 
         // Capture stack trace on the callable error itself
         captureStack(callableErr, kindFn, instanceConfig)
 
-        return callableErr as unknown as CallableErr<Kind>
+        const created = Object.freeze(
+          callableErr
+        ) as unknown as CallableErr<Kind>
+        runHooks("onCreate", created)
+        return created as unknown as CallableErr<Kind>
       }
 
       // Return error creator function for template with keys
@@ -394,38 +1080,29 @@ export function createKindFunction<
         options?: ErrorOptions
       ): Err<Kind, Pick<T, K>> => {
         // Extract only referenced fields into data
-        const data = {} as Record<string, unknown>
+        // (per-kind sets keep the kind's full data)
+        const data = (perKind ? { ...entity } : {}) as Record<string, unknown>
         for (const key of keys) {
           data[key] = entity[key]
         }
 
-        // Build message by interpolating values
+        // Build message by interpolating the (redacted) values
+        const shown = redactFor(data, instanceConfig, options?.config)
         let message = strings[0] ?? ""
         for (let i = 0; i < keys.length; i++) {
           const key = keys[i]
-          const value = key === undefined ? undefined : entity[key]
+          const value = key === undefined ? undefined : shown[key]
           message += String(value ?? "")
           message += strings[i + 1] ?? ""
         }
 
-        // Create error object with custom inspect for debuggers
-        const err = {
-          [ERR]: true,
-          kind,
-          message,
-          data: data as Pick<T, K>,
-          ...(options?.cause !== undefined && { cause: options.cause }),
-          // Custom inspection for Node.js debuggers
-          // Format: ErrorSetName.kind { data }
-          [INSPECT]() {
-            return `${name}.${kind} ${JSON.stringify(data)}`
-          },
-        } as Err<Kind, Pick<T, K>>
-
-        // Capture stack trace if enabled (V8 engines only)
-        captureStack(err, creator, instanceConfig)
-
-        return err
+        return buildErr<Kind, Pick<T, K>>(kind, name, message, shown, {
+          options,
+          instanceConfig,
+          constructorOpt: creator,
+          meta,
+          rawData: data,
+        })
       }
 
       return creator
@@ -468,38 +1145,130 @@ export function createKindFunction<
     configurable: false,
   })
 
+  // Programmatic constructor for library helpers
+  const create = (
+    message: string,
+    data: Record<string, unknown>,
+    options?: ErrorOptions
+  ): Err<Kind> =>
+    buildErr<Kind, Record<string, unknown>>(
+      kind,
+      name,
+      message,
+      redactFor(data, instanceConfig, options?.config),
+      {
+        options,
+        instanceConfig,
+        constructorOpt: create,
+        meta,
+        rawData: data,
+      }
+    )
+  Object.defineProperty(kindFn, CREATE, {
+    value: create,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Metadata declared for this kind
+  Object.defineProperty(kindFn, "meta", {
+    value: meta,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Strict guard: same kind AND created by this set
+  Object.defineProperty(kindFn, "strict", {
+    value: (value: unknown): boolean =>
+      isErr(value) && value.kind === kind && value.set === name,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
   return kindFn as KindFunction<Kind, T>
 }
 
 /**
  * Type for the set-level guard function.
  * Checks if a value is any error from this error set.
+ *
+ * The default guard matches on kind alone. Use `.strict` to also require
+ * that the error was created by this set.
  */
 export type SetGuard<
   Kinds extends string,
   T extends Record<string, unknown>,
-> = ((value: unknown) => value is Err<Kinds, Partial<T>>) & {
+> = ((value: unknown) => value is SetErr<Kinds, T>) & {
   /** Symbol.hasInstance for instanceof support */
-  [Symbol.hasInstance](value: unknown): value is Err<Kinds, Partial<T>>
+  [Symbol.hasInstance](value: unknown): value is SetErr<Kinds, T>
+  /** Strict guard that also checks the owning set */
+  readonly strict: (value: unknown) => value is SetErr<Kinds, T>
 }
 
 /**
- * Creates a set-level type guard for an error set.
- * Returns true if the value is any error from this set.
- * Also supports instanceof operator via Symbol.hasInstance.
- *
- * @param kinds - Array of valid error kinds for this set
- * @returns A type guard function with instanceof support
- *
- * @example
- * ```ts
- * const UserError = createSetGuard<"not_found" | "invalid", User>(["not_found", "invalid"])
+ * Wraps match functions into a set-level guard with instanceof support
+ * and a `strict` variant.
  *
- * // Callable guard:
- * if (UserError(result)) { ... }
+ * @param check - Default match function
+ * @param strictCheck - Match function for the `strict` guard
+ * @returns A type guard function
  *
- * // instanceof syntax:
- * if (result instanceof UserError) { ... }
+ * @internal
+ */
+function defineSetGuard<
+  Kinds extends string,
+  T extends Record<string, unknown>,
+>(
+  check: (value: unknown) => boolean,
+  strictCheck: (value: unknown) => boolean
+): SetGuard<Kinds, T> {
+  const guard = (value: unknown): boolean => check(value)
+
+  // Add Symbol.hasInstance for instanceof support
+  Object.defineProperty(guard, Symbol.hasInstance, {
+    value: (value: unknown): boolean => check(value),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  Object.defineProperty(guard, "strict", {
+    value: (value: unknown): boolean => strictCheck(value),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  return guard as SetGuard<Kinds, T>
+}
+
+/**
+ * Creates a set-level type guard for an error set.
+ * Returns true if the value is any error from this set.
+ * Also supports instanceof operator via Symbol.hasInstance.
+ *
+ * When a set name is given, `guard.strict` additionally requires
+ * `err.set` to equal it. Without a name, `strict` matches on kind alone.
+ *
+ * @param kinds - Array of valid error kinds for this set
+ * @param name - Optional error set name for strict matching
+ * @returns A type guard function with instanceof support
+ *
+ * @example
+ * ```ts
+ * const UserError = createSetGuard<"not_found" | "invalid", User>(["not_found", "invalid"], "UserError")
+ *
+ * // Callable guard:
+ * if (UserError(result)) { ... }
+ *
+ * // instanceof syntax:
+ * if (result instanceof UserError) { ... }
+ *
+ * // Only errors created by UserError:
+ * if (UserError.strict(result)) { ... }
  * ```
  *
  * @internal
@@ -507,8 +1276,8 @@ export type SetGuard<
 export function createSetGuard<
   Kinds extends string,
   T extends Record<string, unknown>,
->(kinds: Kinds[]): SetGuard<Kinds, T> {
-  const guard = (value: unknown): value is Err<Kinds, Partial<T>> => {
+>(kinds: Kinds[], name?: string): SetGuard<Kinds, T> {
+  const matches = (value: unknown): value is SetErr<Kinds, T> => {
     // Support both objects and callable errors (functions)
     if (
       value === null ||
@@ -534,15 +1303,10 @@ export function createSetGuard<
     return kinds.includes(kind as Kinds)
   }
 
-  // Add Symbol.hasInstance for instanceof support
-  Object.defineProperty(guard, Symbol.hasInstance, {
-    value: (value: unknown): boolean => guard(value),
-    writable: false,
-    enumerable: false,
-    configurable: false,
-  })
-
-  return guard as SetGuard<Kinds, T>
+  return defineSetGuard<Kinds, T>(
+    matches,
+    value => matches(value) && (name === undefined || value.set === name)
+  )
 }
 
 /**
@@ -553,7 +1317,7 @@ export type RecoverHandler<
   Kind extends string,
   T extends Record<string, unknown>,
   R,
-> = (error: Err<Kind, Partial<T>>) => R
+> = (error: SetErr<Kind, T>) => R
 
 /**
  * Handlers object for recover method.
@@ -597,7 +1361,7 @@ export function recover<
   T extends Record<string, unknown>,
   R,
 >(
-  value: Success | Err<Kinds, Partial<T>>,
+  value: Success | SetErr<Kinds, T>,
   guard: SetGuard<Kinds, T>,
   handlers: RecoverHandlers<Kinds, T, R>
 ): Success | R {
@@ -608,21 +1372,98 @@ export function recover<
 
   // Value is an error - look for matching handler
   const error = value
-  const kind = error.kind
+  const kind = error.kind as Kinds
 
-  // Try specific handler first
-  const specificHandler = handlers[kind]
-  if (specificHandler !== undefined) {
-    return specificHandler(error)
+  // Try specific handler first, then fall back to catch-all handler
+  const handler = handlers[kind] ?? handlers._
+  if (handler !== undefined) {
+    runHooks("onRecover", error)
+    return handler(error)
   }
 
-  // Fall back to catch-all handler
-  const catchAllHandler = handlers._
-  if (catchAllHandler !== undefined) {
-    return catchAllHandler(error)
+  // No handler found - throw
+  throw new Error(
+    `No handler found for error kind: ${kind}. ` +
+      `Provide a handler for "${kind}" or a catch-all "_" handler.`
+  )
+}
+
+/**
+ * Handlers object for match.
+ *
+ * Requires an `ok` handler for the success value and a handler for
+ * every kind in the set, unless a catch-all `_` handler is given.
+ * Adding a kind to the set makes non-exhaustive handler objects a type error.
+ */
+export type MatchHandlers<
+  Success,
+  Kinds extends string,
+  T extends Record<string, unknown>,
+> = {
+  /** Handler for the success value */
+  ok: (value: Success) => unknown
+} & (
+  | ({ [K in Kinds]: RecoverHandler<K, T, unknown> } & {
+      /** Catch-all handler for any unmatched error kind */
+      _?: RecoverHandler<Kinds, T, unknown>
+    })
+  | ({ [K in Kinds]?: RecoverHandler<K, T, unknown> } & {
+      /** Catch-all handler for any unmatched error kind */
+      _: RecoverHandler<Kinds, T, unknown>
+    })
+)
+
+/**
+ * Result type of match: the union of all handler return types.
+ */
+export type MatchResult<H> = {
+  [K in keyof H]-?: H[K] extends (...args: never[]) => infer R ? R : never
+}[keyof H]
+
+/**
+ * Exhaustive, expression-style handling of both the success and error paths.
+ *
+ * Calls `ok` with the success value, or the handler for the error's kind,
+ * falling back to the catch-all `_`. Unlike recover, a handler is required
+ * for every kind (or `_`) at compile time, and the result is the union of
+ * the handler return types.
+ *
+ * @param value - The result value (success or error)
+ * @param guard - The set-level guard to check errors
+ * @param handlers - `ok` handler plus a handler per kind (or `_`)
+ * @returns The return value of the handler that ran
+ * @throws {Error} If no handler matches (only possible from untyped callers)
+ *
+ * @example
+ * ```ts
+ * const response = match(result, UserError, {
+ *   ok: user => json(user),
+ *   not_found: () => status(404),
+ *   suspended: e => status(403, e.message),
+ * })
+ * ```
+ */
+export function match<
+  Success,
+  Kinds extends string,
+  T extends Record<string, unknown>,
+  H extends MatchHandlers<Success, Kinds, T>,
+>(
+  value: Success | SetErr<Kinds, T>,
+  guard: SetGuard<Kinds, T>,
+  handlers: H
+): MatchResult<H> {
+  if (!guard(value)) {
+    return handlers.ok(value) as MatchResult<H>
+  }
+
+  const kind = value.kind as Kinds
+  const handler =
+    (handlers as RecoverHandlers<Kinds, T, unknown>)[kind] ?? handlers._
+  if (handler !== undefined) {
+    return handler(value) as MatchResult<H>
   }
 
-  // No handler found - throw
   throw new Error(
     `No handler found for error kind: ${kind}. ` +
       `Provide a handler for "${kind}" or a catch-all "_" handler.`
@@ -636,7 +1477,7 @@ export function recover<
 export type InspectHandler<
   Kind extends string,
   T extends Record<string, unknown>,
-> = (error: Err<Kind, Partial<T>>) => void
+> = (error: SetErr<Kind, T>) => void
 
 /**
  * Handlers object for inspect method.
@@ -675,7 +1516,7 @@ export function inspect<
   Kinds extends string,
   T extends Record<string, unknown>,
 >(
-  value: Success | Err<Kinds, Partial<T>>,
+  value: Success | SetErr<Kinds, T>,
   guard: SetGuard<Kinds, T>,
   handlers: InspectHandlers<Kinds, T>
 ): void {
@@ -686,7 +1527,7 @@ export function inspect<
 
   // Value is an error - look for matching handler
   const error = value
-  const kind = error.kind
+  const kind = error.kind as Kinds
 
   // Call specific handler if provided
   const handler = handlers[kind]
@@ -696,6 +1537,96 @@ export function inspect<
   // No handler for this kind - that's fine, do nothing
 }
 
+/**
+ * Handlers object for recoverAsync.
+ * Like RecoverHandlers, but handlers may return a promise.
+ */
+export type AsyncRecoverHandlers<
+  Kinds extends string,
+  T extends Record<string, unknown>,
+  R,
+> = RecoverHandlers<Kinds, T, R | PromiseLike<R>>
+
+/**
+ * Handlers object for inspectAsync.
+ * Like InspectHandlers, but handlers may return a promise that is awaited.
+ */
+export type AsyncInspectHandlers<
+  Kinds extends string,
+  T extends Record<string, unknown>,
+> = {
+  [K in Kinds]?: (error: SetErr<K, T>) => void | PromiseLike<void>
+}
+
+/**
+ * Async version of recover for promised results and async handlers.
+ *
+ * Awaits the value, then resolves handlers in the same order as recover:
+ * the specific handler first, then the catch-all. Rejects if no matching
+ * handler is found or if the handler rejects.
+ *
+ * @param value - The result value or a promise of it
+ * @param guard - The set-level guard to check errors
+ * @param handlers - Object mapping error kinds to (async) handlers
+ * @returns Promise of the success value or handler result
+ *
+ * @example
+ * ```ts
+ * const user = await recoverAsync(fetchUser(id), UserError, {
+ *   not_found: () => fetchUserFromBackup(id),
+ *   _: () => guestUser,
+ * })
+ * ```
+ */
+export async function recoverAsync<
+  Success,
+  Kinds extends string,
+  T extends Record<string, unknown>,
+  R,
+>(
+  value: Success | SetErr<Kinds, T> | PromiseLike<Success | SetErr<Kinds, T>>,
+  guard: SetGuard<Kinds, T>,
+  handlers: AsyncRecoverHandlers<Kinds, T, R>
+): Promise<Success | R> {
+  const resolved = (await value) as Success | SetErr<Kinds, T>
+  return (await recover(resolved, guard, handlers)) as Success | R
+}
+
+/**
+ * Async version of inspect for promised results and async handlers.
+ *
+ * Awaits the value and the matching handler, then resolves to the value
+ * unchanged, so it can sit inline in an async flow. A rejected handler
+ * rejects the returned promise.
+ *
+ * @param value - The result value or a promise of it
+ * @param guard - The set-level guard to check errors
+ * @param handlers - Partial object mapping error kinds to (async) handlers
+ * @returns Promise of the original value
+ *
+ * @example
+ * ```ts
+ * const result = await inspectAsync(fetchUser(id), UserError, {
+ *   suspended: (e) => auditLog.insert({ userId: e.data.id }),
+ * })
+ * ```
+ */
+export async function inspectAsync<
+  Success,
+  Kinds extends string,
+  T extends Record<string, unknown>,
+>(
+  value: Success | SetErr<Kinds, T> | PromiseLike<Success | SetErr<Kinds, T>>,
+  guard: SetGuard<Kinds, T>,
+  handlers: AsyncInspectHandlers<Kinds, T>
+): Promise<Success | SetErr<Kinds, T>> {
+  const resolved = (await value) as Success | SetErr<Kinds, T>
+  if (guard(resolved)) {
+    await handlers[resolved.kind]?.(resolved)
+  }
+  return resolved
+}
+
 /**
  * Extended SetGuard with kinds array for merge operations.
  * Internal type used to access the kinds from a guard.
@@ -713,6 +1644,7 @@ export type SetGuardWithKinds<
  * This is used internally for merge operations.
  *
  * @param kinds - Array of valid error kinds for this set
+ * @param name - Optional error set name for strict matching
  * @returns A type guard function with kinds array and instanceof support
  *
  * @internal
@@ -720,10 +1652,24 @@ export type SetGuardWithKinds<
 export function createSetGuardWithKinds<
   Kinds extends string,
   T extends Record<string, unknown>,
->(kinds: readonly Kinds[]): SetGuardWithKinds<Kinds, T> {
-  const guard = createSetGuard<Kinds, T>(kinds as Kinds[])
+>(kinds: readonly Kinds[], name?: string): SetGuardWithKinds<Kinds, T> {
+  const guard = createSetGuard<Kinds, T>(kinds as Kinds[], name)
+  return attachKinds(guard, kinds)
+}
 
-  // Add kinds array to the guard
+/**
+ * Adds the kinds array to a set-level guard.
+ *
+ * @param guard - Guard to extend
+ * @param kinds - Array of valid error kinds for the guard
+ * @returns The same guard, typed with its kinds
+ *
+ * @internal
+ */
+function attachKinds<Kinds extends string, T extends Record<string, unknown>>(
+  guard: SetGuard<Kinds, T>,
+  kinds: readonly Kinds[]
+): SetGuardWithKinds<Kinds, T> {
   Object.defineProperty(guard, "kinds", {
     value: kinds,
     writable: false,
@@ -735,44 +1681,209 @@ export function createSetGuardWithKinds<
 }
 
 /**
- * Merges two error set guards into a unified guard.
+ * Minimal shape of a guard that can be merged: a type guard with
+ * its kinds array and a strict variant. Error sets, guards from
+ * `createSetGuardWithKinds` and merged sets all satisfy it.
+ */
+export type MergeableGuard = ((value: unknown) => value is Err) & {
+  /** Array of valid kinds for this guard */
+  readonly kinds: readonly string[]
+  /** Strict guard that also checks the owning set */
+  readonly strict: (value: unknown) => boolean
+}
+
+/**
+ * Error type narrowed by a guard.
+ * Distributes over unions, so `GuardedErr<A | B>` is the union of both.
+ */
+export type GuardedErr<G> = G extends (value: unknown) => value is infer E
+  ? E
+  : never
+
+/**
+ * Union of the error types of all merged guards.
+ * Each member keeps its own data type.
  *
- * The merged guard checks for errors from either original set.
- * Data becomes untyped (Record<string, unknown>) since sets may have different entity types.
+ * @example
+ * ```ts
+ * type E = MergedErr<[typeof UserError, typeof DbError]>
+ * // Err<"not_found" | "suspended", Partial<User>> | Err<"timeout", Partial<Db>>
+ * ```
+ */
+export type MergedErr<Sets extends readonly MergeableGuard[]> = GuardedErr<
+  Sets[number]
+>
+
+/**
+ * Union of the kinds of all merged guards.
+ */
+export type MergedKinds<Sets extends readonly MergeableGuard[]> =
+  Sets[number]["kinds"][number]
+
+/**
+ * Kinds declared by more than one of the merged guards.
+ * Resolves to `never` when the sets have no kinds in common.
+ *
+ * @example
+ * ```ts
+ * type A = KindCollisions<[typeof UserError, typeof OrderError]>  // "not_found"
+ * type B = KindCollisions<[typeof UserError, typeof DbError]>     // never
+ * ```
+ */
+export type KindCollisions<Sets extends readonly MergeableGuard[]> =
+  Sets extends readonly [
+    infer Head extends MergeableGuard,
+    ...infer Tail extends MergeableGuard[],
+  ]
+    ? (Head["kinds"][number] & MergedKinds<Tail>) | KindCollisions<Tail>
+    : never
+
+/**
+ * Narrows an error union to the members that can have a specific kind,
+ * keeping each member's data type.
+ */
+export type NarrowKind<E, K extends string> = E extends Err<
+  infer Kinds,
+  infer D
+>
+  ? K extends Kinds
+    ? Err<K, D>
+    : never
+  : never
+
+/**
+ * Handlers object for the recover method of a merged set.
+ * Each handler receives the error narrowed to its kind, with the data
+ * type of every set that declares it.
+ */
+export type MergedRecoverHandlers<Sets extends readonly MergeableGuard[], R> = {
+  [K in MergedKinds<Sets>]?: (error: NarrowKind<MergedErr<Sets>, K>) => R
+} & {
+  /** Catch-all handler for any unmatched error kind */
+  _?: (error: MergedErr<Sets>) => R
+}
+
+/**
+ * Handlers object for the inspect method of a merged set.
+ */
+export type MergedInspectHandlers<Sets extends readonly MergeableGuard[]> = {
+  [K in MergedKinds<Sets>]?: (error: NarrowKind<MergedErr<Sets>, K>) => void
+}
+
+/**
+ * Guard returned by merge().
+ *
+ * Narrows to the union of each member's error type and keeps
+ * kinds, recover, inspect and iteration. Merged sets can be merged again.
+ */
+export type MergedSet<Sets extends readonly MergeableGuard[]> = ((
+  value: unknown
+) => value is MergedErr<Sets>) & {
+  /** Symbol.hasInstance for instanceof support */
+  [Symbol.hasInstance](value: unknown): value is MergedErr<Sets>
+  /** Same as the merged guard, which already checks the owning set */
+  readonly strict: (value: unknown) => value is MergedErr<Sets>
+  /** Kinds of all members, in merge order (colliding kinds repeat) */
+  readonly kinds: readonly MergedKinds<Sets>[]
+
+  /**
+   * Expression-style error handling with guaranteed recovery.
+   */
+  recover<Success, R>(
+    value: Success | MergedErr<Sets>,
+    handlers: MergedRecoverHandlers<Sets, R>
+  ): Success | R
+
+  /**
+   * Observe errors without changing type or control flow.
+   */
+  inspect<Success>(
+    value: Success | MergedErr<Sets>,
+    handlers: MergedInspectHandlers<Sets>
+  ): void
+
+  /**
+   * Iterator for error kind names.
+   */
+  [Symbol.iterator](): IterableIterator<MergedKinds<Sets>>
+}
+
+/**
+ * Merges any number of error set guards into a unified guard.
+ *
+ * The merged guard accepts exactly the errors accepted by the members'
+ * strict guards: an error passes only if it was created by one of the
+ * merged sets, even when another set declares the same kind.
+ * The narrowed type is the union of each set's error type, so data stays
+ * typed per set. Use `KindCollisions` to detect shared kinds at compile time.
  * Original sets remain unchanged.
  *
- * @param guard1 - First error set guard
- * @param guard2 - Second error set guard
- * @returns A new guard that matches errors from either set
+ * @param sets - Error sets (or guards) to merge
+ * @returns A new guard that matches errors from any member set
  *
  * @example
  * ```ts
- * const UserError = createSetGuardWithKinds<"not_found" | "suspended", User>(["not_found", "suspended"])
- * const OrderError = createSetGuardWithKinds<"cancelled" | "expired", Order>(["cancelled", "expired"])
+ * const ServiceError = merge(UserError, OrderError, DbError)
+ *
+ * if (ServiceError(result)) {
+ *   // Err<UserKinds, Partial<User>> | Err<OrderKinds, Partial<Order>> | ...
+ * }
  *
- * const ServiceError = merge(UserError, OrderError)
- * // ServiceError matches "not_found" | "suspended" | "cancelled" | "expired"
+ * ServiceError.recover(result, {
+ *   timeout: e => retry(e.data.query),  // e.data is Partial<Db>
+ *   _: () => fallback,
+ * })
  * ```
  */
-export function merge<
-  Kinds1 extends string,
-  T1 extends Record<string, unknown>,
-  Kinds2 extends string,
-  T2 extends Record<string, unknown>,
->(
-  guard1: SetGuardWithKinds<Kinds1, T1>,
-  guard2: SetGuardWithKinds<Kinds2, T2>
-): SetGuardWithKinds<Kinds1 | Kinds2, Record<string, unknown>> {
-  // Combine kinds from both guards
-  const combinedKinds = [...guard1.kinds, ...guard2.kinds] as (
-    | Kinds1
-    | Kinds2
-  )[]
-
-  // Create new guard with combined kinds
-  return createSetGuardWithKinds<Kinds1 | Kinds2, Record<string, unknown>>(
+export function merge<Sets extends readonly MergeableGuard[]>(
+  ...sets: Sets
+): MergedSet<Sets> {
+  // Combine kinds from all guards
+  const combinedKinds = sets.flatMap(set => set.kinds) as MergedKinds<Sets>[]
+
+  // Accept exactly the member sets (the merged guard is already strict)
+  const isMember = (value: unknown): boolean =>
+    sets.some(set => set.strict(value))
+
+  const guard = attachKinds(
+    defineSetGuard<MergedKinds<Sets>, Record<string, unknown>>(
+      isMember,
+      isMember
+    ),
     combinedKinds
   )
+
+  // Handlers are keyed by kind, so the single-set helpers apply unchanged
+  Object.defineProperty(guard, "recover", {
+    value: <Success, R>(
+      value: Success,
+      handlers: RecoverHandlers<MergedKinds<Sets>, Record<string, unknown>, R>
+    ): Success | R => recover(value, guard, handlers),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  Object.defineProperty(guard, "inspect", {
+    value: <Success>(
+      value: Success,
+      handlers: InspectHandlers<MergedKinds<Sets>, Record<string, unknown>>
+    ): void => inspect(value, guard, handlers),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  Object.defineProperty(guard, Symbol.iterator, {
+    *value(): IterableIterator<string> {
+      yield* combinedKinds
+    },
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  return guard as unknown as MergedSet<Sets>
 }
 
 /**
@@ -782,7 +1893,34 @@ export function merge<
 export type ErrorMapper<
   Kinds extends string,
   T extends Record<string, unknown>,
-> = (error: Error) => Err<Kinds, Partial<T>>
+> = (error: Error) => SetErr<Kinds, T>
+
+/**
+ * Converts a caught value to an error set value for capture functions.
+ * Errors thrown with toError() come back as the original value (only
+ * when `owns` accepts it, if given); other values are converted to
+ * `Error` objects and passed to the mapper.
+ *
+ * @param thrown - The caught value
+ * @param mapper - Function to convert the Error to an error set value
+ * @param owns - Guard of the capturing set, if any
+ * @returns The error set value, after the `onCapture` hooks have seen it
+ * @internal
+ */
+function fromThrown<Kinds extends string, Data extends Record<string, unknown>>(
+  thrown: unknown,
+  mapper: ErrorMapper<Kinds, Data>,
+  owns: (err: Err) => boolean = () => true
+): SetErr<Kinds, Data> | Err {
+  let err: SetErr<Kinds, Data> | Err
+  if (thrown instanceof ErrorSetException && owns(thrown.err)) {
+    err = thrown.err
+  } else {
+    err = mapper(thrown instanceof Error ? thrown : new Error(String(thrown)))
+  }
+  runHooks("onCapture", err, thrown)
+  return err
+}
 
 /**
  * Wraps synchronous throwing code and converts exceptions to error set values.
@@ -790,10 +1928,12 @@ export type ErrorMapper<
  * Returns the function result if no error is thrown.
  * Catches thrown errors, converts non-Error values to Error objects,
  * and passes them to the mapper to create an error set value.
+ * A thrown `ErrorSetException` returns its original error instead, which
+ * can belong to any set.
  *
  * @param fn - Synchronous function that might throw
  * @param mapper - Function to convert caught Error to error set value
- * @returns The function result or mapped error
+ * @returns The function result, mapped error or original error
  *
  * @example
  * ```ts
@@ -801,7 +1941,9 @@ export type ErrorMapper<
  *   () => db.querySync(sql),
  *   (e) => DbError.query_failed`Query failed: ${"message"}`({ sql, message: e.message })
  * )
- * // result is QueryResult | DbError
+ * // result is QueryResult | DbError | Err (a rethrown error of any set)
+ * if (isErr(result)) return result
+ * result.rows
  * ```
  */
 export function captureSync<
@@ -811,13 +1953,11 @@ export function captureSync<
 >(
   fn: () => T,
   mapper: ErrorMapper<Kinds, Data>
-): T | Err<Kinds, Partial<Data>> {
+): T | SetErr<Kinds, Data> | Err {
   try {
     return fn()
   } catch (error_) {
-    // Convert non-Error values to Error objects
-    const error = error_ instanceof Error ? error_ : new Error(String(error_))
-    return mapper(error)
+    return fromThrown(error_, mapper)
   }
 }
 
@@ -827,10 +1967,12 @@ export function captureSync<
  * Returns the promise result if no error is thrown or rejected.
  * Catches thrown errors and promise rejections, converts non-Error values
  * to Error objects, and passes them to the mapper to create an error set value.
+ * A thrown `ErrorSetException` returns its original error instead, which
+ * can belong to any set.
  *
  * @param fn - Async function that might throw or reject
  * @param mapper - Function to convert caught Error to error set value
- * @returns Promise of the function result or mapped error
+ * @returns Promise of the function result, mapped error or original error
  *
  * @example
  * ```ts
@@ -838,7 +1980,9 @@ export function captureSync<
  *   async () => await db.query(sql),
  *   (e) => DbError.query_failed`Query failed: ${"message"}`({ sql, message: e.message })
  * )
- * // result is QueryResult | DbError
+ * // result is QueryResult | DbError | Err (a rethrown error of any set)
+ * if (isErr(result)) return result
+ * result.rows
  * ```
  */
 export async function captureAsync<
@@ -848,13 +1992,11 @@ export async function captureAsync<
 >(
   fn: () => Promise<T>,
   mapper: ErrorMapper<Kinds, Data>
-): Promise<T | Err<Kinds, Partial<Data>>> {
+): Promise<T | SetErr<Kinds, Data> | Err> {
   try {
     return await fn()
   } catch (error_) {
-    // Convert non-Error values to Error objects
-    const error = error_ instanceof Error ? error_ : new Error(String(error_))
-    return mapper(error)
+    return fromThrown(error_, mapper)
   }
 }
 
@@ -864,7 +2006,8 @@ export async function captureAsync<
  * Combines:
  * - Callable set-level guard (can call as function or use instanceof)
  * - Kind constructors indexed by kind name
- * - Helper methods: recover, inspect, merge, capture, captureAsync
+ * - Helper methods: recover, inspect, recoverAsync, inspectAsync, match,
+ *   merge, capture, captureAsync, deserialize, fromProblemDetails
  * - Type helper for type exports
  */
 export type ErrorSet<
@@ -878,13 +2021,18 @@ export type ErrorSet<
    * Type helper for exporting error set type.
    * Use: export type MyError = typeof MyError.Type
    */
-  readonly Type: Err<Kinds, Partial<T>>
+  readonly Type: SetErr<Kinds, T>
+
+  /**
+   * Metadata declared for each kind (empty for kinds without any).
+   */
+  readonly meta: { readonly [K in Kinds]: Readonly<KindMeta> }
 
   /**
    * Expression-style error handling with guaranteed recovery.
    */
   recover<Success, R>(
-    value: Success | Err<Kinds, Partial<T>>,
+    value: Success | SetErr<Kinds, T>,
     handlers: RecoverHandlers<Kinds, T, R>
   ): Success | R
 
@@ -892,32 +2040,77 @@ export type ErrorSet<
    * Observe errors without changing type or control flow.
    */
   inspect<Success>(
-    value: Success | Err<Kinds, Partial<T>>,
+    value: Success | SetErr<Kinds, T>,
     handlers: InspectHandlers<Kinds, T>
   ): void
 
   /**
-   * Merge with another error set to create unified guard.
+   * Async recover for promised results and async handlers.
    */
-  merge<Kinds2 extends string, T2 extends Record<string, unknown>>(
-    other: SetGuardWithKinds<Kinds2, T2>
-  ): SetGuardWithKinds<Kinds | Kinds2, Record<string, unknown>>
+  recoverAsync<Success, R>(
+    value: Success | SetErr<Kinds, T> | PromiseLike<Success | SetErr<Kinds, T>>,
+    handlers: AsyncRecoverHandlers<Kinds, T, R>
+  ): Promise<Success | R>
 
   /**
-   * Wrap synchronous throwing code.
+   * Async inspect for promised results and async handlers.
+   * Resolves to the original value.
+   */
+  inspectAsync<Success>(
+    value: Success | SetErr<Kinds, T> | PromiseLike<Success | SetErr<Kinds, T>>,
+    handlers: AsyncInspectHandlers<Kinds, T>
+  ): Promise<Success | SetErr<Kinds, T>>
+
+  /**
+   * Exhaustive handling of the success value and every error kind.
+   */
+  match<Success, H extends MatchHandlers<Success, Kinds, T>>(
+    value: Success | SetErr<Kinds, T>,
+    handlers: H
+  ): MatchResult<H>
+
+  /**
+   * Merge with other error sets to create a unified guard.
+   */
+  merge<Others extends readonly MergeableGuard[]>(
+    ...others: Others
+  ): MergedSet<[SetGuardWithKinds<Kinds, T>, ...Others]>
+
+  /**
+   * Wrap synchronous throwing code. A thrown `ErrorSetException` of this
+   * set returns its original error; those of other sets are mapped.
    */
   capture<Result>(
     fn: () => Result,
     mapper: ErrorMapper<Kinds, T>
-  ): Result | Err<Kinds, Partial<T>>
+  ): Result | SetErr<Kinds, T>
 
   /**
-   * Wrap asynchronous throwing code.
+   * Wrap asynchronous throwing code. A thrown `ErrorSetException` of this
+   * set returns its original error; those of other sets are mapped.
    */
   captureAsync<Result>(
     fn: () => Promise<Result>,
     mapper: ErrorMapper<Kinds, T>
-  ): Promise<Result | Err<Kinds, Partial<T>>>
+  ): Promise<Result | SetErr<Kinds, T>>
+
+  /**
+   * Rebuild an error from this set from its serialized form.
+   * Accepts the output of `serialize()` or its JSON string.
+   * Throws if the payload is malformed, belongs to another set,
+   * or has a kind not in this set.
+   */
+  deserialize(input: SerializedErr | string): SetErr<Kinds, T>
+
+  /**
+   * Rebuild an error from this set from an RFC 9457 problem details body
+   * (see `toProblemDetails`). Returns undefined if the problem `type` is
+   * not one of this set's kinds. Throws if the body is malformed.
+   */
+  fromProblemDetails(
+    input: unknown,
+    options?: ProblemTypeOptions
+  ): SetErr<Kinds, T> | undefined
 
   /**
    * Iterator for error kind names.
@@ -941,8 +2134,10 @@ export type ErrorSet<
  *
  * @param name - Name of the error set (for debugging, e.g., "UserError")
  * @param kinds - Array of unique error kind strings (literal types inferred automatically)
+ * @param meta - Optional metadata (status, severity, retryable, code) per kind
  * @returns Builder with .init<T>() method to complete the error set
  * @throws {Error} If duplicate kinds are provided (e.g., `["a", "b", "a"]`)
+ * @throws {Error} If the metadata names a kind that is not in the set
  *
  * @example
  * ```ts
@@ -956,6 +2151,12 @@ export type ErrorSet<
  * const VerboseError = errorSet("VerboseError", ["error"])
  *   .init<User>({ includeStack: true, stackDepth: 5 })
  *
+ * // With per-kind metadata
+ * const ApiError = errorSet("ApiError", ["not_found", "rate_limited"], {
+ *   not_found: { status: 404, severity: "info" },
+ *   rate_limited: { status: 429, retryable: true },
+ * }).init<User>()
+ *
  * // Create errors with type-safe template literals
  * const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
  *
@@ -974,7 +2175,11 @@ export type ErrorSet<
 export function errorSet<
   N extends string,
   const Kinds extends readonly string[],
->(name: N, kinds: NoDuplicates<Kinds>): ErrorSetBuilder<Kinds> {
+>(
+  name: N,
+  kinds: NoDuplicates<Kinds>,
+  meta?: NoInfer<KindMetaMap<Kinds[number]>>
+): ErrorSetBuilder<Kinds> {
   // Runtime validation for JavaScript consumers or edge cases
   const seen = new Set<string>()
   for (const kind of kinds) {
@@ -983,102 +2188,278 @@ export function errorSet<
     }
     seen.add(kind)
   }
+  const metaMap = buildMetaMap(name, seen, meta)
 
   return {
     init<T extends Record<string, unknown>>(
       config?: ErrorSetConfig
     ): ErrorSet<Kinds[number], T> {
-      // Create the base guard with kinds array
-      const guard = createSetGuardWithKinds<Kinds[number], T>(kinds)
+      return buildErrorSet<Kinds[number], T>(
+        name,
+        kinds,
+        config,
+        false,
+        metaMap
+      )
+    },
+    initPerKind<M extends { [K in Kinds[number]]: Record<string, unknown> }>(
+      config?: ErrorSetConfig
+    ): ErrorSet<Kinds[number], PerKindData<M>> {
+      return buildErrorSet<Kinds[number], PerKindData<M>>(
+        name,
+        kinds,
+        config,
+        true,
+        metaMap
+      )
+    },
+  }
+}
 
-      // Create kind functions and attach to guard
-      const errorSetObj = guard as unknown as ErrorSet<Kinds[number], T>
+/**
+ * Validates per-kind metadata and freezes one entry for every kind.
+ *
+ * @param name - Name of the error set (for error messages)
+ * @param kinds - The set's kinds
+ * @param meta - Metadata passed to errorSet(), if any
+ * @returns Frozen map with an entry for every kind
+ * @throws {Error} If the metadata names a kind that is not in the set
+ * @internal
+ */
+function buildMetaMap(
+  name: string,
+  kinds: ReadonlySet<string>,
+  meta: Readonly<Record<string, KindMeta | undefined>> | undefined
+): Readonly<Record<string, Readonly<KindMeta>>> {
+  const map: Record<string, Readonly<KindMeta>> = {}
+  for (const key of Object.keys(meta ?? {})) {
+    if (!kinds.has(key)) {
+      throw new Error(
+        `Unknown kind "${key}" in metadata for error set "${name}"`
+      )
+    }
+  }
+  for (const kind of kinds) {
+    const entry = meta?.[kind]
+    map[kind] = entry ? Object.freeze({ ...entry }) : NO_META
+  }
+  return Object.freeze(map)
+}
 
-      for (const kind of kinds) {
-        const kindFn = createKindFunction<string, T>(kind, name, config)
-        Object.defineProperty(errorSetObj, kind, {
-          value: kindFn,
-          writable: false,
-          enumerable: true,
-          configurable: false,
-        })
+/**
+ * Builds a complete error set: guard, kind functions and helper methods.
+ *
+ * @param name - Name of the error set
+ * @param kinds - Validated array of unique kinds
+ * @param config - Optional per-set configuration overrides
+ * @param perKind - Whether creators keep each kind's full data
+ * @param meta - Frozen metadata for every kind
+ * @returns The complete error set
+ *
+ * @internal
+ */
+function buildErrorSet<Kinds extends string, T extends Record<string, unknown>>(
+  name: string,
+  kinds: readonly Kinds[],
+  config: ErrorSetConfig | undefined,
+  perKind: boolean,
+  meta: Readonly<Record<string, Readonly<KindMeta>>>
+): ErrorSet<Kinds, T> {
+  // Create the base guard with kinds array
+  const guard = createSetGuardWithKinds<Kinds, T>(kinds, name)
+
+  // Create kind functions and attach to guard
+  const errorSetObj = guard as unknown as ErrorSet<Kinds, T>
+
+  for (const kind of kinds) {
+    const kindFn = createKindFunction<string, T>(
+      kind,
+      name,
+      config,
+      perKind,
+      meta[kind]
+    )
+    Object.defineProperty(errorSetObj, kind, {
+      value: kindFn,
+      writable: false,
+      enumerable: true,
+      configurable: false,
+    })
+  }
+
+  // Attach Type helper (returns undefined but provides type inference)
+  Object.defineProperty(errorSetObj, "Type", {
+    value: undefined,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Attach per-kind metadata
+  Object.defineProperty(errorSetObj, "meta", {
+    value: meta,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Attach recover method bound to this guard
+  Object.defineProperty(errorSetObj, "recover", {
+    value: <Success, R>(
+      value: Success | SetErr<Kinds, T>,
+      handlers: RecoverHandlers<Kinds, T, R>
+    ): Success | R => recover(value, guard, handlers),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Attach inspect method bound to this guard
+  Object.defineProperty(errorSetObj, "inspect", {
+    value: <Success>(
+      value: Success | SetErr<Kinds, T>,
+      handlers: InspectHandlers<Kinds, T>
+    ): void => inspect(value, guard, handlers),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Attach async recover and inspect methods bound to this guard
+  Object.defineProperty(errorSetObj, "recoverAsync", {
+    value: <Success, R>(
+      value:
+        | Success
+        | SetErr<Kinds, T>
+        | PromiseLike<Success | SetErr<Kinds, T>>,
+      handlers: AsyncRecoverHandlers<Kinds, T, R>
+    ): Promise<Success | R> => recoverAsync(value, guard, handlers),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  Object.defineProperty(errorSetObj, "inspectAsync", {
+    value: <Success>(
+      value:
+        | Success
+        | SetErr<Kinds, T>
+        | PromiseLike<Success | SetErr<Kinds, T>>,
+      handlers: AsyncInspectHandlers<Kinds, T>
+    ): Promise<Success | SetErr<Kinds, T>> =>
+      inspectAsync(value, guard, handlers),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Attach match method bound to this guard
+  Object.defineProperty(errorSetObj, "match", {
+    value: <Success, H extends MatchHandlers<Success, Kinds, T>>(
+      value: Success | SetErr<Kinds, T>,
+      handlers: H
+    ): MatchResult<H> => match(value, guard, handlers),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Attach merge method
+  Object.defineProperty(errorSetObj, "merge", {
+    value: <Others extends readonly MergeableGuard[]>(
+      ...others: Others
+    ): MergedSet<[SetGuardWithKinds<Kinds, T>, ...Others]> =>
+      merge(guard, ...others),
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Attach capture methods
+  const capture = <Result>(
+    fn: () => Result,
+    mapper: ErrorMapper<Kinds, T>
+  ): Result | SetErr<Kinds, T> => {
+    try {
+      return fn()
+    } catch (error_) {
+      return fromThrown(error_, mapper, guard.strict) as SetErr<Kinds, T>
+    }
+  }
+  const captureAsync = async <Result>(
+    fn: () => Promise<Result>,
+    mapper: ErrorMapper<Kinds, T>
+  ): Promise<Result | SetErr<Kinds, T>> => {
+    try {
+      return await fn()
+    } catch (error_) {
+      return fromThrown(error_, mapper, guard.strict) as SetErr<Kinds, T>
+    }
+  }
+  markInternal(import.meta.url, [capture, captureAsync])
+  Object.defineProperty(errorSetObj, "capture", {
+    value: capture,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+  Object.defineProperty(errorSetObj, "captureAsync", {
+    value: captureAsync,
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Attach deserialize method for rehydrating serialized errors
+  Object.defineProperty(errorSetObj, "deserialize", {
+    value: (input: SerializedErr | string): SetErr<Kinds, T> => {
+      const payload = parseSerialized(input)
+      if (payload.set !== name) {
+        throw new Error(
+          `Cannot deserialize error from set "${payload.set}" as "${name}"`
+        )
       }
+      if (!(kinds as readonly string[]).includes(payload.kind)) {
+        throw new Error(
+          `Cannot deserialize unknown kind "${payload.kind}" in error set "${name}"`
+        )
+      }
+      return rehydrate(payload, config, meta[payload.kind]) as SetErr<Kinds, T>
+    },
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
 
-      // Attach Type helper (returns undefined but provides type inference)
-      Object.defineProperty(errorSetObj, "Type", {
-        value: undefined,
-        writable: false,
-        enumerable: false,
-        configurable: false,
-      })
-
-      // Attach recover method bound to this guard
-      Object.defineProperty(errorSetObj, "recover", {
-        value: <Success, R>(
-          value: Success | Err<Kinds[number], Partial<T>>,
-          handlers: RecoverHandlers<Kinds[number], T, R>
-        ): Success | R => recover(value, guard, handlers),
-        writable: false,
-        enumerable: false,
-        configurable: false,
-      })
-
-      // Attach inspect method bound to this guard
-      Object.defineProperty(errorSetObj, "inspect", {
-        value: <Success>(
-          value: Success | Err<Kinds[number], Partial<T>>,
-          handlers: InspectHandlers<Kinds[number], T>
-        ): void => inspect(value, guard, handlers),
-        writable: false,
-        enumerable: false,
-        configurable: false,
-      })
-
-      // Attach merge method
-      Object.defineProperty(errorSetObj, "merge", {
-        value: <Kinds2 extends string, T2 extends Record<string, unknown>>(
-          other: SetGuardWithKinds<Kinds2, T2>
-        ): SetGuardWithKinds<Kinds[number] | Kinds2, Record<string, unknown>> =>
-          merge(guard, other),
-        writable: false,
-        enumerable: false,
-        configurable: false,
-      })
-
-      // Attach capture method
-      Object.defineProperty(errorSetObj, "capture", {
-        value: <Result>(
-          fn: () => Result,
-          mapper: ErrorMapper<Kinds[number], T>
-        ): Result | Err<Kinds[number], Partial<T>> => captureSync(fn, mapper),
-        writable: false,
-        enumerable: false,
-        configurable: false,
-      })
-
-      // Attach captureAsync method
-      Object.defineProperty(errorSetObj, "captureAsync", {
-        value: <Result>(
-          fn: () => Promise<Result>,
-          mapper: ErrorMapper<Kinds[number], T>
-        ): Promise<Result | Err<Kinds[number], Partial<T>>> =>
-          captureAsync(fn, mapper),
-        writable: false,
-        enumerable: false,
-        configurable: false,
-      })
-
-      // Attach Symbol.iterator for iteration over kinds
-      Object.defineProperty(errorSetObj, Symbol.iterator, {
-        *value(): IterableIterator<string> {
-          yield* kinds
-        },
-        writable: false,
-        enumerable: false,
-        configurable: false,
-      })
-
-      return errorSetObj
+  // Attach fromProblemDetails method for rehydrating HTTP problem bodies
+  Object.defineProperty(errorSetObj, "fromProblemDetails", {
+    value: (
+      input: unknown,
+      options?: ProblemTypeOptions
+    ): SetErr<Kinds, T> | undefined => {
+      const payload = parseProblemDetails(input, name, options)
+      if (
+        payload === undefined ||
+        !(kinds as readonly string[]).includes(payload.kind)
+      ) {
+        return undefined
+      }
+      return rehydrate(payload, config, meta[payload.kind]) as SetErr<Kinds, T>
     },
-  }
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  // Attach Symbol.iterator for iteration over kinds
+  Object.defineProperty(errorSetObj, Symbol.iterator, {
+    *value(): IterableIterator<string> {
+      yield* kinds
+    },
+    writable: false,
+    enumerable: false,
+    configurable: false,
+  })
+
+  return errorSetObj
 }
@@ -5,16 +5,53 @@
 
 import { expectAssignable, expectType } from "tsd"
 import {
+  getErrorContext,
+  withConfig,
+  withErrorContext,
+} from "../dist/context.js"
+import { fetchHandler } from "../dist/http.js"
+import {
+  andThen,
   type Config,
+  ConfigError,
+  captureSync,
+  collect,
   configure,
+  configureFromEnv,
+  defineAdapter,
   type Err,
+  ErrAggregate,
   type ErrorSetConfig,
+  type ErrorSetException,
   errorSet,
+  findCause,
+  gen,
+  groupByKind,
   type HasDuplicates,
+  hasCause,
   isErr,
+  type KindCollisions,
   type KindFunction,
+  type KindMeta,
+  type MergedErr,
+  memorySink,
+  merge,
+  metaOf,
   type NoDuplicates,
+  type ProblemDetails,
+  parseStack,
+  partition,
+  pipe,
+  pipeAsync,
+  rootCause,
+  type StackFrame,
+  settleAll,
+  toError,
+  toProblemDetails,
+  unwrap,
+  unwrapOr,
 } from "../dist/index.js"
+import { type ErrorSetMatchers, errorSetMatchers } from "../dist/testing.js"
 
 // =============================================================================
 // Domain types for testing
@@ -108,11 +145,10 @@ expectAssignable<{ id: string }>(err.data)
 declare const mockErr: Err<"not_found", { id: string }>
 
 expectType<"not_found">(mockErr.kind)
+expectType<string>(mockErr.set)
 expectType<string>(mockErr.message)
 expectType<{ id: string }>(mockErr.data)
-expectAssignable<Err<string, Record<string, unknown>> | undefined>(
-  mockErr.cause
-)
+expectType<unknown>(mockErr.cause)
 
 // =============================================================================
 // isErr universal guard
@@ -179,6 +215,65 @@ expectType<void>(
   })
 )
 
+// =============================================================================
+// recoverAsync / inspectAsync helpers
+// =============================================================================
+
+declare const userPromise: Promise<GetUserResult>
+
+// recoverAsync accepts promised results and async handlers
+expectType<Promise<User | string>>(
+  UserError.recoverAsync(userPromise, {
+    not_found: async () => "guest",
+    _: e => e.kind,
+  })
+)
+
+// inspectAsync resolves to the original value
+expectType<Promise<User | typeof UserError.Type>>(
+  UserError.inspectAsync(userPromise, {
+    suspended: async e => {
+      await Promise.resolve(e.data.id)
+    },
+  })
+)
+
+// =============================================================================
+// match helper
+// =============================================================================
+
+// match returns the union of handler return types
+expectType<string | number | boolean>(
+  UserError.match(userResult, {
+    ok: user => user.name,
+    not_found: e => e.data.id?.length ?? 0,
+    suspended: () => false,
+    invalid: () => false,
+  })
+)
+
+// catch-all makes kind handlers optional
+expectType<string | null>(
+  UserError.match(userResult, {
+    ok: user => user.email,
+    _: () => null,
+  })
+)
+
+// every kind needs a handler unless `_` is given
+// @ts-expect-error - missing handler for "invalid"
+UserError.match(userResult, {
+  ok: () => 1,
+  not_found: () => 2,
+  suspended: () => 3,
+})
+
+// ok is required
+// @ts-expect-error - missing ok handler
+UserError.match(userResult, {
+  _: () => 1,
+})
+
 // =============================================================================
 // merge helper
 // =============================================================================
@@ -191,6 +286,78 @@ expectType<boolean>(ServiceError({} as unknown))
 // Merged set has kinds
 expectAssignable<readonly string[]>(ServiceError.kinds)
 
+// Merged guard keeps per-set data types
+declare const serviceResult:
+  | User
+  | MergedErr<[typeof UserError, typeof OrderError]>
+
+if (ServiceError(serviceResult)) {
+  expectType<
+    | Err<"not_found" | "suspended" | "invalid", Partial<User>>
+    | Err<"cancelled" | "payment_failed" | "out_of_stock", Partial<Order>>
+  >(serviceResult)
+}
+
+// Variadic merge
+const ApiError = errorSet("ApiError", ["timeout"]).init<{ url: string }>()
+const AppError = merge(UserError, OrderError, ApiError)
+expectType<
+  readonly (
+    | "not_found"
+    | "suspended"
+    | "invalid"
+    | "cancelled"
+    | "payment_failed"
+    | "out_of_stock"
+    | "timeout"
+  )[]
+>(AppError.kinds)
+
+// recover handlers are narrowed to each set's data
+declare const appResult: User | MergedErr<[typeof AppError]>
+const appRecovered = AppError.recover(appResult, {
+  timeout: e => {
+    expectType<Partial<{ url: string }>>(e.data)
+    return "timeout" as const
+  },
+  cancelled: e => {
+    expectType<Err<"cancelled", Partial<Order>>>(e)
+    return "cancelled" as const
+  },
+  _: () => "other" as const,
+})
+expectType<User | "timeout" | "cancelled" | "other">(appRecovered)
+
+// Colliding kinds receive every set's error type
+const InventoryError = errorSet("InventoryError", ["not_found"]).init<Order>()
+const LookupError = merge(UserError, InventoryError)
+declare const lookupResult: User | MergedErr<[typeof LookupError]>
+LookupError.inspect(lookupResult, {
+  not_found: e => {
+    expectType<
+      Err<"not_found", Partial<User>> | Err<"not_found", Partial<Order>>
+    >(e)
+  },
+})
+
+// Kind collisions are detectable at the type level
+expectType<"not_found">(
+  {} as KindCollisions<[typeof UserError, typeof InventoryError]>
+)
+expectType<never>({} as KindCollisions<[typeof UserError, typeof ApiError]>)
+
+// =============================================================================
+// Strict guards
+// =============================================================================
+
+if (UserError.strict(userResult)) {
+  expectAssignable<Partial<User>>(userResult.data)
+}
+
+if (UserError.not_found.strict(userResult)) {
+  expectType<"not_found">(userResult.kind)
+}
+
 // =============================================================================
 // capture and captureAsync
 // =============================================================================
@@ -211,6 +378,15 @@ const capturedAsync = UserError.captureAsync(
 
 expectAssignable<Promise<"success" | Err<string, Partial<User>>>>(capturedAsync)
 
+// Standalone capture may return errors of any set: narrow with isErr
+const standalone = captureSync(
+  () => ({ rows: [1] }),
+  () => UserError.invalid`Error`
+)
+if (!isErr(standalone)) {
+  expectType<{ rows: number[] }>(standalone)
+}
+
 // =============================================================================
 // ErrorSetConfig type
 // =============================================================================
@@ -359,3 +535,402 @@ expectType<boolean>(UserError.invalid(callableErr))
 const withHoles = UserError.not_found`User ${"id"} not found`({ id: "123" })
 expectType<"not_found">(withHoles.kind)
 expectType<{ id: string }>(withHoles.data)
+
+// =============================================================================
+// defineAdapter
+// =============================================================================
+
+const userAdapter = defineAdapter({
+  errorSet: UserError,
+  classify: () => "not_found",
+  extract: error => ({ id: error.message }),
+})
+
+expectType<number | Err<"not_found" | "suspended" | "invalid", Partial<User>>>(
+  userAdapter.run(() => 42)
+)
+expectType<
+  Promise<number | Err<"not_found" | "suspended" | "invalid", Partial<User>>>
+>(userAdapter.run(async () => await Promise.resolve(42)))
+expectType<
+  (
+    id: string
+  ) => User | Err<"not_found" | "suspended" | "invalid", Partial<User>>
+>(userAdapter.wrap((id: string) => ({ ...user, id })))
+
+// classify must return a kind of the set
+// @ts-expect-error - "bogus" is not a UserError kind
+defineAdapter({ errorSet: UserError, classify: () => "bogus" })
+
+// =============================================================================
+// result combinators
+// =============================================================================
+
+const ShippingError = errorSet("ShippingError", ["undeliverable"]).init<Order>()
+type ShippingErrType = typeof ShippingError.Type
+type OrderErrType = typeof OrderError.Type
+declare const getOrder: (user: User) => Order | OrderErrType
+declare const ship: (order: Order) => string | ShippingErrType
+
+// andThen accumulates the step's errors
+expectType<
+  Order | OrderErrType | Err<"not_found" | "suspended", Partial<User>>
+>(andThen(userResult, getOrder))
+
+// unwrapOr removes errors from the result
+expectType<User | null>(unwrapOr(userResult, null))
+
+// pipe lists every error that can surface
+expectType<
+  | string
+  | ShippingErrType
+  | OrderErrType
+  | Err<"not_found" | "suspended", Partial<User>>
+>(pipe(userResult, getOrder, ship))
+
+// pipeAsync awaits promised values and async steps
+expectType<
+  Promise<number | OrderErrType | Err<"not_found" | "suspended", Partial<User>>>
+>(
+  pipeAsync(
+    userPromise,
+    async user => await Promise.resolve(getOrder(user)),
+    order => order.total
+  )
+)
+
+// =============================================================================
+// gen early return
+// =============================================================================
+
+// gen returns the final value plus every yielded error set
+expectType<
+  | string
+  | OrderErrType
+  | ShippingErrType
+  | Err<"not_found" | "suspended", Partial<User>>
+>(
+  gen(function* ($) {
+    const user = yield* $(userResult)
+    expectType<User>(user)
+    const order = yield* $(getOrder(user))
+    return yield* $(ship(order))
+  })
+)
+
+// async generator bodies return a promise
+expectType<Promise<number | Err<"not_found" | "suspended", Partial<User>>>>(
+  gen(async function* ($) {
+    const user = yield* $(await userPromise)
+    return user.name.length
+  })
+)
+
+// =============================================================================
+// Per-kind data
+// =============================================================================
+
+const FormError = errorSet("FormError", [
+  "not_found",
+  "validation",
+  "timeout",
+]).initPerKind<{
+  not_found: { id: string }
+  validation: { field: string; reason: string }
+  timeout: Record<string, never>
+}>()
+
+// Type is a union with each kind's exact data
+expectType<
+  | Err<"not_found", { id: string }>
+  | Err<"validation", { field: string; reason: string }>
+  | Err<"timeout", Record<string, never>>
+>(FormError.Type)
+
+// Creators take the kind's full data; holes are limited to its fields
+expectType<Err<"validation", { field: string; reason: string }>>(
+  FormError.validation`${"field"} is invalid`({ field: "email", reason: "@" })
+)
+// @ts-expect-error - "id" is not a field of validation
+FormError.validation`${"id"} is invalid`
+// @ts-expect-error - reason is required
+FormError.validation`${"field"} is invalid`({ field: "email" })
+
+// Kinds without data can be used directly
+expectAssignable<Err<"timeout", Record<string, never>>>(
+  FormError.timeout`Timed out`
+)
+
+declare const formResult: User | typeof FormError.Type
+
+// Kind guards narrow to the exact data
+if (FormError.validation(formResult)) {
+  expectType<string>(formResult.data.reason)
+}
+
+// Set guard narrows data through kind checks
+if (FormError(formResult) && formResult.kind === "not_found") {
+  expectType<string>(formResult.data.id)
+}
+
+// recover handlers receive the exact data
+expectType<User | string>(
+  FormError.recover(formResult, {
+    not_found: e => e.data.id,
+    validation: e => e.data.reason,
+    timeout: () => "timeout",
+  })
+)
+
+// entity-bound sets are unchanged
+expectType<Err<"not_found" | "suspended" | "invalid", Partial<User>>>(
+  UserError.Type
+)
+
+// =============================================================================
+// Native Error bridge
+// =============================================================================
+
+declare const notFoundErr: Err<"not_found", { id: string }>
+
+// toError keeps kind and data types
+const notFoundException = toError(notFoundErr)
+expectType<ErrorSetException<Err<"not_found", { id: string }>>>(
+  notFoundException
+)
+expectAssignable<Error>(notFoundException)
+expectType<"not_found">(notFoundException.kind)
+expectType<{ id: string }>(notFoundException.data)
+
+// unwrap removes errors from the result
+expectType<User>(unwrap(userResult))
+
+// =============================================================================
+// Cause chains
+// =============================================================================
+
+// findCause narrows to the guard's error type
+expectType<Err<"not_found", Partial<User>> | undefined>(
+  findCause(notFoundErr, UserError.not_found)
+)
+expectType<boolean>(hasCause(notFoundErr, UserError))
+
+// causes may be foreign errors or any thrown value
+expectType<unknown>(rootCause(new Error("boom")))
+
+// cause accepts native errors
+expectAssignable<Err>(UserError.suspended`Suspended`({ cause: new Error("x") }))
+
+// =============================================================================
+// Kind metadata
+// =============================================================================
+
+const MetaError = errorSet("MetaError", ["not_found", "rate_limited"], {
+  not_found: { status: 404, severity: "info" },
+}).init<User>()
+
+expectType<Readonly<KindMeta>>(MetaError.meta.not_found)
+expectType<Readonly<KindMeta>>(MetaError.rate_limited.meta)
+expectType<Readonly<KindMeta>>(metaOf(notFoundErr))
+
+// metadata keys must be kinds of the set
+// @ts-expect-error - "missing" is not a kind
+errorSet("MetaError", ["a"], { missing: { status: 500 } })
+
+// severity is a fixed set of levels
+// @ts-expect-error - "critical" is not a severity
+errorSet("MetaError", ["a"], { a: { severity: "critical" } })
+
+// =============================================================================
+// Problem details
+// =============================================================================
+
+expectType<ProblemDetails>(toProblemDetails(notFoundErr, { fields: ["id"] }))
+expectType<number>(toProblemDetails(notFoundErr).status)
+
+// fromProblemDetails narrows to the set's errors, or undefined
+expectType<typeof UserError.Type | undefined>(
+  UserError.fromProblemDetails({ type: "urn:errorset:UserError/not_found" })
+)
+
+// =============================================================================
+// HTTP middleware
+// =============================================================================
+
+// fetchHandler keeps the handler's arguments and always resolves a Response
+const userRoute = fetchHandler(
+  (request: Request) =>
+    request.method === "GET" ? new Response("ok") : notFoundErr,
+  { status: { not_found: 404 } }
+)
+expectType<(request: Request) => Promise<Response>>(userRoute)
+
+// status maps are keyed by the kinds the handler returns
+fetchHandler((_request: Request) => notFoundErr, {
+  // @ts-expect-error - "suspended" is not returned by the handler
+  status: { suspended: 403 },
+})
+
+// =============================================================================
+// Aggregate errors
+// =============================================================================
+
+declare const checkedName: string | typeof UserError.Type
+declare const checkedAge: number | Err<"invalid", { age: number }>
+
+// collect returns the success values or an aggregate of every error type
+const collected = collect({ name: checkedName, age: () => checkedAge })
+expectType<
+  | { name: string; age: number }
+  | ErrAggregate<typeof UserError.Type | Err<"invalid", { age: number }>>
+>(collected)
+
+// arrays keep their positions
+expectType<
+  | [string, number]
+  | ErrAggregate<typeof UserError.Type | Err<"invalid", { age: number }>>
+>(collect([checkedName, checkedAge]))
+
+// children carry their path
+if (ErrAggregate(collected)) {
+  expectType<string | undefined>(collected.data.errors[0]?.path)
+}
+
+// =============================================================================
+// Batch helpers
+// =============================================================================
+
+declare const batch: (
+  | User
+  | typeof UserError.Type
+  | Err<"timeout", { ms: number }>
+)[]
+
+// partition splits successes from errors, keeping the kind union
+expectType<
+  [User[], (typeof UserError.Type | Err<"timeout", { ms: number }>)[]]
+>(partition(batch))
+
+// a guard only separates its own errors
+expectType<
+  [(User | Err<"timeout", { ms: number }>)[], (typeof UserError.Type)[]]
+>(partition(batch, UserError))
+
+// groupByKind with a set has every kind, narrowed to that kind
+const byKind = groupByKind(batch, UserError)
+expectType<Err<"not_found", Partial<User>>[]>(byKind.not_found)
+expectType<Err<"invalid", Partial<User>>[]>(byKind.invalid)
+
+// groupByKind without a set has the kinds that may occur
+expectType<Err<"timeout", { ms: number }>[] | undefined>(
+  groupByKind(partition(batch)[1]).timeout
+)
+
+// settleAll resolves to results, mapped errors or rethrown errors of any set
+expectAssignable<Promise<(User | Err)[]>>(
+  settleAll(
+    [() => Promise.resolve(user), Promise.resolve(user)],
+    () => UserError.suspended`Suspended`
+  )
+)
+
+// =============================================================================
+// Test matchers
+// =============================================================================
+
+declare const matchers: ErrorSetMatchers<void>
+
+// matchers take guards: sets, kinds, and kinds with data
+matchers.toBeErrOf(UserError)
+matchers.toBeErrKind(UserError.not_found, { id: "1" })
+matchers.toHaveCause(UserError.not_found.strict)
+// @ts-expect-error - kinds are passed as guards, not names
+matchers.toBeErrKind("not_found")
+
+// implementations can be registered by hand
+expectAssignable<(this: never, received: unknown) => { pass: boolean }>(
+  errorSetMatchers.toBeErr
+)
+
+// =============================================================================
+// Hooks and sinks
+// =============================================================================
+
+// hooks receive the error (and the thrown value for captures)
+configure({
+  hooks: {
+    onCreate: err => expectType<Err>(err),
+    onCapture: (_err, thrown) => expectType<unknown>(thrown),
+  },
+})
+
+// per-set hooks are part of the set's config
+errorSet("HookedError", ["failed"]).init<User>({
+  hooks: { onRecover: err => expectType<string>(err.kind) },
+})
+
+// sinks provide hooks and record events
+const sink = memorySink()
+configure({ hooks: sink.hooks })
+expectType<Err[]>(sink.created())
+
+// =============================================================================
+// Request-scoped context
+// =============================================================================
+
+// withErrorContext returns what the function returns
+expectType<Promise<number>>(
+  withErrorContext({ requestId: "r1" }, async () => 1)
+)
+expectType<Readonly<Record<string, unknown>>>(getErrorContext())
+
+// context is an optional field, apart from data
+expectType<Readonly<Record<string, unknown>> | undefined>(notFoundErr.context)
+
+// =============================================================================
+// Configuration layers
+// =============================================================================
+
+// withConfig takes partial configuration and returns what the function returns
+expectType<string>(withConfig({ format: "json" }, () => "done"))
+// @ts-expect-error - 'loud' is not a valid format
+withConfig({ format: "loud" }, () => undefined)
+
+// errors accept configuration for one call
+UserError.not_found`User ${"id"} not found`(
+  { id: "1" },
+  { config: { includeStack: true } }
+)
+UserError.not_found`User not found`({ config: { format: "minimal" } })
+
+// =============================================================================
+// Configuration validation
+// =============================================================================
+
+// configure and configureFromEnv return a ConfigError or nothing
+const configErr = configure({ format: "json" })
+expectType<ConfigError | undefined>(configErr)
+expectType<ConfigError | undefined>(
+  configureFromEnv({ ERRORSET_FORMAT: "json" })
+)
+if (ConfigError.invalid_option(configErr)) {
+  expectType<string>(configErr.data.expected)
+}
+
+// =============================================================================
+// Stack frames
+// =============================================================================
+
+// errors expose structured frames when stacks are captured
+expectType<readonly StackFrame[] | undefined>(
+  UserError.not_found`User not found`.frames
+)
+expectType<StackFrame[]>(
+  parseStack("Error", {
+    sourceMaps: true,
+    stackFilter: { exclude: [/vendor/] },
+  })
+)
+configure({ stackFilter: { internal: false, exclude: ["/vendor/"] } })
+// @ts-expect-error - exclude takes strings and patterns
+configure({ stackFilter: { exclude: [1] } })
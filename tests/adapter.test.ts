@@ -0,0 +1,162 @@
+/**
+ * Unit tests for defineAdapter.
+ * @module tests/adapter
+ */
+
+import { describe, expect, it, mock } from "bun:test"
+import { defineAdapter, type Err, errorSet } from "../src/index.ts"
+
+type SqliteContext = { sql: string; code: string; message: string }
+
+const SqliteError = errorSet("SqliteError", [
+  "constraint",
+  "busy",
+  "unknown",
+]).init<SqliteContext>()
+
+class SqliteException extends Error {
+  readonly code: string
+
+  constructor(code: string, message: string) {
+    super(message)
+    this.code = code
+  }
+}
+
+const codeOf = (error: Error): string | undefined =>
+  error instanceof SqliteException ? error.code : undefined
+
+const sqlite = defineAdapter({
+  errorSet: SqliteError,
+  classify: error => {
+    const code = codeOf(error)
+    if (code === "SQLITE_CONSTRAINT") {
+      return "constraint"
+    }
+    if (code === "SQLITE_BUSY") {
+      return "busy"
+    }
+    return "unknown"
+  },
+  extract: (error, args) => ({
+    code: codeOf(error),
+    sql: typeof args[0] === "string" ? args[0] : undefined,
+  }),
+})
+
+describe("defineAdapter", () => {
+  it("should expose the target error set", () => {
+    expect(sqlite.errorSet).toBe(SqliteError)
+  })
+
+  describe("run", () => {
+    it("should return the result of a sync function", () => {
+      expect(sqlite.run(() => 42)).toBe(42)
+    })
+
+    it("should classify sync exceptions into set errors", () => {
+      const result = sqlite.run(() => {
+        throw new SqliteException("SQLITE_BUSY", "database is locked")
+      })
+
+      expect(SqliteError.busy.strict(result)).toBe(true)
+      const err = result as Err<"busy", Partial<SqliteContext>>
+      expect(err.message).toBe("database is locked")
+      expect(err.data).toEqual({ code: "SQLITE_BUSY", sql: undefined })
+    })
+
+    it("should keep the caught exception as the cause", () => {
+      const exception = new SqliteException("SQLITE_BUSY", "database is locked")
+      const result = sqlite.run(() => {
+        throw exception
+      })
+
+      expect((result as Err).cause).toBe(exception)
+    })
+
+    it("should resolve the result of an async function", async () => {
+      expect(await sqlite.run(async () => await Promise.resolve("rows"))).toBe(
+        "rows"
+      )
+    })
+
+    it("should classify rejections into set errors", async () => {
+      const result = await sqlite.run(async () => {
+        await Promise.resolve()
+        throw new SqliteException("SQLITE_CONSTRAINT", "UNIQUE failed")
+      })
+
+      expect(SqliteError.constraint(result)).toBe(true)
+    })
+
+    it("should convert non-Error throws", () => {
+      const result = sqlite.run(() => {
+        throw "boom" as unknown as Error
+      })
+
+      expect(SqliteError.unknown(result)).toBe(true)
+      expect((result as Err).message).toBe("boom")
+    })
+  })
+
+  describe("wrap", () => {
+    it("should pass arguments through and return the result", () => {
+      const query = sqlite.wrap((sql: string, limit: number) => [sql, limit])
+      expect(query("SELECT 1", 10)).toEqual(["SELECT 1", 10])
+    })
+
+    it("should pass call arguments to extract", () => {
+      const query = sqlite.wrap((_sql: string) => {
+        throw new SqliteException("SQLITE_CONSTRAINT", "UNIQUE failed")
+      })
+
+      const result = query("INSERT INTO users VALUES (1)")
+      expect(SqliteError.constraint(result)).toBe(true)
+      expect((result as Err).data).toEqual({
+        code: "SQLITE_CONSTRAINT",
+        sql: "INSERT INTO users VALUES (1)",
+      })
+    })
+
+    it("should wrap async functions", async () => {
+      const query = sqlite.wrap(async (sql: string) => {
+        await Promise.resolve()
+        throw new SqliteException("SQLITE_BUSY", `busy: ${sql}`)
+      })
+
+      const result = await query("SELECT 1")
+      expect(SqliteError.busy(result)).toBe(true)
+      expect((result as Err).data).toEqual({
+        code: "SQLITE_BUSY",
+        sql: "SELECT 1",
+      })
+    })
+  })
+
+  describe("options", () => {
+    it("should use the message builder when provided", () => {
+      const adapter = defineAdapter({
+        errorSet: SqliteError,
+        classify: () => "unknown",
+        message: error => `sqlite: ${error.message}`,
+      })
+
+      const result = adapter.run(() => {
+        throw new Error("disk I/O error")
+      })
+      expect((result as Err).message).toBe("sqlite: disk I/O error")
+      expect((result as Err).data).toEqual({})
+    })
+
+    it("should call classify once per failure", () => {
+      const classify = mock((_error: Error) => "busy" as const)
+      const adapter = defineAdapter({ errorSet: SqliteError, classify })
+
+      adapter.run(() => "ok")
+      adapter.run(() => {
+        throw new Error("locked")
+      })
+      expect(classify).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,238 @@
+/**
+ * Unit tests for aggregate errors and collect.
+ * @module tests/aggregate
+ */
+
+import { describe, expect, it, mock } from "bun:test"
+import {
+  collect,
+  configure,
+  type Err,
+  ErrAggregate,
+  errorSet,
+  format,
+  groupByKind,
+  isErr,
+  memorySink,
+  REDACTED,
+  resetConfig,
+  serialize,
+  unsafeData,
+} from "../src/index.ts"
+
+type Field = { field: string; value: string }
+type Item = { sku: string; qty: number }
+
+const FormError = errorSet("FormError", ["required", "invalid"]).init<Field>()
+
+type FormErr = typeof FormError.Type
+
+const validateEmail = (value: string): string | FormErr =>
+  value.includes("@")
+    ? value
+    : FormError.invalid`Invalid email ${"value"}`({ value })
+const validateName = (value: string): string | FormErr =>
+  value ? value : FormError.required`Name is required`
+
+const validateItem = (item: Item) =>
+  collect({
+    sku: item.sku ? item.sku : FormError.required`SKU is required`,
+    qty: () =>
+      item.qty > 0
+        ? item.qty
+        : FormError.invalid`Invalid quantity ${"value"}`({
+            value: String(item.qty),
+          }),
+  })
+
+describe("collect", () => {
+  it("should return the success values by key", () => {
+    const result = collect({
+      email: validateEmail("a@b.co"),
+      name: () => validateName("John"),
+    })
+    expect(result).toEqual({ email: "a@b.co", name: "John" })
+  })
+
+  it("should return the success values by index", () => {
+    expect(collect([validateName("a"), () => validateName("b")])).toEqual([
+      "a",
+      "b",
+    ])
+  })
+
+  it("should run every validator and gather every failure", () => {
+    const after = mock(() => "ok")
+    const result = collect({
+      email: validateEmail("nope"),
+      name: () => validateName(""),
+      other: after,
+    })
+    expect(after).toHaveBeenCalledTimes(1)
+    expect(ErrAggregate(result)).toBe(true)
+
+    const aggregate = result as ErrAggregate<FormErr>
+    expect(aggregate.kind).toBe("aggregate")
+    expect(aggregate.message).toBe("2 errors")
+    expect(aggregate.data.errors.map(err => err.path)).toEqual([
+      "email",
+      "name",
+    ])
+  })
+
+  it("should give children full paths through nested collects", () => {
+    const result = collect({
+      email: validateEmail("a@b.co"),
+      items: collect(
+        [
+          { sku: "a", qty: 1 },
+          { sku: "", qty: 0 },
+        ].map(validateItem)
+      ),
+    }) as ErrAggregate
+    expect(result.message).toBe("1 error")
+
+    const [items] = result.data.errors
+    expect(items?.path).toBe("items")
+    const [second] = (items as ErrAggregate).data.errors
+    expect(second?.path).toBe("items[1]")
+    expect((second as ErrAggregate).data.errors.map(err => err.path)).toEqual([
+      "items[1].sku",
+      "items[1].qty",
+    ])
+  })
+})
+
+describe("aggregate children", () => {
+  const result = collect({ name: validateName("") }) as ErrAggregate<FormErr>
+  const [child] = result.data.errors as [FormErr]
+
+  it("should keep children working with guards and handlers", () => {
+    expect(isErr(child)).toBe(true)
+    expect(FormError.required.strict(child)).toBe(true)
+    expect(
+      FormError.recover(child, {
+        required: e => `${e.path}: required`,
+        invalid: () => "invalid",
+      })
+    ).toBe("name: required")
+  })
+
+  it("should copy callable errors instead of changing them", () => {
+    const callable = FormError.required`Name is required`
+    const copied = collect({ name: callable }) as ErrAggregate
+    expect(callable.path).toBeUndefined()
+    expect(copied.data.errors[0]).not.toBe(callable)
+  })
+
+  it("should collect callable errors as results, without calling them", () => {
+    const sink = memorySink()
+    configure({ hooks: sink.hooks, includeTimestamp: true })
+    try {
+      const callable = FormError.required`Name is required`
+      const copied = collect({ name: callable }) as ErrAggregate
+      expect(copied.data.errors[0]?.timestamp).toBe(callable.timestamp)
+      expect(sink.created()).toEqual([callable, copied])
+    } finally {
+      resetConfig()
+    }
+  })
+
+  it("should keep the raw data of redacted children", () => {
+    const SecretError = errorSet("SecretError", ["leaked"]).init<{
+      token: string
+    }>({ redact: ["token"] })
+    const leaked = SecretError.leaked`Leaked ${"token"}`({ token: "t0k3n" })
+    const [copy] = (collect([leaked]) as ErrAggregate).data.errors
+    expect(copy?.data).toEqual({ token: REDACTED })
+    expect(unsafeData(copy as Err)).toEqual({ token: "t0k3n" })
+  })
+
+  it("should handle the aggregate itself like any error", () => {
+    const count = ErrAggregate.recover(result as string | typeof result, {
+      aggregate: e => e.data.errors.length,
+    })
+    expect(count).toBe(1)
+
+    const seen: string[] = []
+    ErrAggregate.inspect(result, {
+      aggregate: e => {
+        for (const err of e.data.errors) {
+          FormError.inspect(err, { required: r => seen.push(r.path ?? "") })
+        }
+      },
+    })
+    expect(seen).toEqual(["name"])
+  })
+
+  it("should survive a serialize and deserialize round trip", () => {
+    const nested = collect({
+      email: validateEmail("nope"),
+      items: collect([validateItem({ sku: "", qty: 1 })]),
+    }) as ErrAggregate
+    const back = ErrAggregate.deserialize(JSON.stringify(serialize(nested)))
+    const [email, items] = back.data.errors
+    expect(isErr(email)).toBe(true)
+    expect(FormError.invalid.strict(email)).toBe(true)
+    expect(email).toMatchObject({ path: "email", data: { value: "nope" } })
+    expect(ErrAggregate.strict(items)).toBe(true)
+    const [first] = (items as ErrAggregate).data.errors
+    const [sku] = (first as ErrAggregate).data.errors
+    expect(FormError.required(sku)).toBe(true)
+    expect(sku?.path).toBe("items[0].sku")
+    expect(Object.keys(groupByKind(back.data.errors))).toEqual([
+      "invalid",
+      "aggregate",
+    ])
+    expect(format(back, { format: "pretty", colors: false })).toBe(
+      format(nested, { format: "pretty", colors: false })
+    )
+  })
+})
+
+describe("aggregate rendering", () => {
+  const result = collect({
+    name: validateName(""),
+    items: collect([validateItem({ sku: "a", qty: 0 })]),
+  }) as ErrAggregate
+
+  it("should render the tree in pretty format", () => {
+    expect(format(result, { format: "pretty", colors: false })).toBe(
+      [
+        "ErrAggregate.aggregate - 2 errors",
+        "  name: FormError.required - Name is required",
+        "  items: ErrAggregate.aggregate - 1 error",
+        "    items[0]: ErrAggregate.aggregate - 1 error",
+        '      items[0].qty: FormError.invalid - Invalid quantity 0 {"value":"0"}',
+      ].join("\n")
+    )
+  })
+
+  it("should render the tree in JSON format", () => {
+    const json = JSON.parse(format(result, { format: "json" }))
+    expect(json.data.errors[0]).toEqual({
+      path: "name",
+      kind: "required",
+      message: "Name is required",
+      data: {},
+    })
+    expect(json.data.errors[1].data.errors[0].data.errors[0].path).toBe(
+      "items[0].qty"
+    )
+    expect(JSON.parse(JSON.stringify(result))).toEqual(json)
+  })
+
+  it("should list children in minimal format", () => {
+    expect(format(result, { format: "minimal" })).toBe(
+      "aggregate(required,aggregate(aggregate(invalid:0)))"
+    )
+  })
+
+  it("should render errors holding non-error lists normally", () => {
+    const ListError = errorSet("ListError", ["aggregate"]).init<{
+      errors: string[]
+    }>()
+    const err: Err = ListError.aggregate`Bad ${"errors"}`({ errors: ["x"] })
+    expect(format(err, { format: "minimal" })).toBe("aggregate:x")
+  })
+})
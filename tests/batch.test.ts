@@ -0,0 +1,152 @@
+/**
+ * Unit tests for batch helpers.
+ * @module tests/batch
+ */
+
+import { describe, expect, it } from "bun:test"
+import {
+  errorSet,
+  groupByKind,
+  partition,
+  settleAll,
+  toError,
+} from "../src/index.ts"
+
+type User = { id: string; name: string }
+type Job = { job: string }
+
+const UserError = errorSet("UserError", ["not_found", "suspended"]).init<User>()
+const JobError = errorSet("JobError", ["failed"]).init<Job>()
+
+type UserErr = typeof UserError.Type
+type JobErr = typeof JobError.Type
+
+const john: User = { id: "1", name: "John" }
+const notFound = UserError.not_found`User ${"id"} not found`({ id: "2" })
+const suspended = UserError.suspended`User suspended`
+const failed = JobError.failed`Job ${"job"} failed`({ job: "sync" })
+
+const results: (User | UserErr | JobErr)[] = [
+  john,
+  notFound,
+  failed,
+  suspended,
+  notFound,
+]
+
+const toFailed = (e: Error) =>
+  JobError.failed`Job ${"job"} failed`({ job: e.message })
+
+describe("partition", () => {
+  it("should split successes and errors in order", () => {
+    const [ok, errors] = partition(results)
+    expect(ok).toEqual([john])
+    expect(errors).toEqual([notFound, failed, suspended, notFound])
+  })
+
+  it("should only separate errors matched by the guard", () => {
+    const [rest, userErrors] = partition(results, UserError)
+    expect(rest).toEqual([john, failed])
+    expect(userErrors).toEqual([notFound, suspended, notFound])
+  })
+
+  it("should accept any iterable", () => {
+    const [ok, errors] = partition(new Set([john, failed]))
+    expect(ok).toEqual([john])
+    expect(errors).toEqual([failed])
+  })
+})
+
+describe("groupByKind", () => {
+  it("should group errors by the kinds that occurred", () => {
+    const [, errors] = partition(results)
+    expect(groupByKind(errors)).toEqual({
+      not_found: [notFound, notFound],
+      failed: [failed],
+      suspended: [suspended],
+    })
+  })
+
+  it("should key the result by every kind of the set", () => {
+    const byKind = groupByKind([notFound, failed, john], UserError)
+    expect(byKind).toEqual({ not_found: [notFound], suspended: [] })
+  })
+
+  it("should work with merged sets", () => {
+    const AppError = UserError.merge(JobError)
+    expect(groupByKind(results, AppError)).toEqual({
+      not_found: [notFound, notFound],
+      suspended: [suspended],
+      failed: [failed],
+    })
+  })
+})
+
+describe("settleAll", () => {
+  it("should return every result in task order", async () => {
+    const settled = await settleAll(
+      [
+        Promise.resolve(john),
+        () => Promise.resolve(notFound as User | UserErr),
+        Promise.reject(new Error("sync")),
+        () => {
+          throw new Error("import")
+        },
+      ],
+      toFailed
+    )
+    expect(settled[0]).toEqual(john)
+    expect(settled[1]).toBe(notFound)
+    expect(settled.slice(2).map(err => (err as JobErr).data.job)).toEqual([
+      "sync",
+      "import",
+    ])
+  })
+
+  it("should return the original error of rejected ErrorSetExceptions", async () => {
+    const settled = await settleAll(
+      [Promise.reject<UserErr>(toError(notFound))],
+      toFailed
+    )
+    expect(settled[0]).toBe(notFound)
+  })
+
+  it("should limit how many function tasks run at once", async () => {
+    let running = 0
+    let peak = 0
+    const task = (id: string) => async () => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise(resolve => setTimeout(resolve, 1))
+      running--
+      return { id, name: id }
+    }
+
+    const settled = await settleAll(
+      ["a", "b", "c", "d", "e"].map(task),
+      toFailed,
+      { concurrency: 2 }
+    )
+    expect(peak).toBe(2)
+    expect(settled.map(user => (user as User).id)).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+      "e",
+    ])
+  })
+
+  it("should resolve an empty list", async () => {
+    expect(await settleAll([], toFailed, { concurrency: 3 })).toEqual([])
+  })
+
+  it("should reject invalid concurrency", async () => {
+    await expect(settleAll([], toFailed, { concurrency: 0 })).rejects.toThrow(
+      "Invalid concurrency 0: expected a positive integer"
+    )
+    await expect(settleAll([], toFailed, { concurrency: 1.5 })).rejects.toThrow(
+      "Invalid concurrency 1.5"
+    )
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for cause-chain traversal.
+ * @module tests/cause
+ */
+
+import { describe, expect, it } from "bun:test"
+import {
+  causes,
+  errorSet,
+  findCause,
+  hasCause,
+  isErr,
+  rootCause,
+} from "../src/index.ts"
+
+type Db = { query: string }
+
+const DbError = errorSet("DbError", ["timeout", "connection"]).init<Db>()
+const RepoError = errorSet("RepoError", ["load_failed"]).init()
+const ApiError = errorSet("ApiError", ["unavailable"]).init()
+
+const socketError = new Error("ECONNRESET")
+const timeout = DbError.timeout`Query ${"query"} timed out`(
+  { query: "SELECT 1" },
+  { cause: socketError }
+)
+const loadFailed = RepoError.load_failed`Load failed`({ cause: timeout })
+const unavailable = ApiError.unavailable`Service unavailable`({
+  cause: loadFailed,
+})
+
+describe("causes", () => {
+  it("should iterate the chain nearest first, excluding the error", () => {
+    expect([...causes(unavailable)]).toEqual([loadFailed, timeout, socketError])
+  })
+
+  it("should follow native Error.cause", () => {
+    const inner = new Error("inner")
+    const outer = new Error("outer", { cause: inner })
+    const err = ApiError.unavailable`Unavailable`({ cause: outer })
+    expect([...causes(err)]).toEqual([outer, inner])
+  })
+
+  it("should yield non-object causes and stop there", () => {
+    const err = ApiError.unavailable`Unavailable`({ cause: "boom" })
+    expect([...causes(err)]).toEqual(["boom"])
+  })
+
+  it("should be empty for errors without a cause", () => {
+    expect([...causes(ApiError.unavailable`Unavailable`)]).toEqual([])
+  })
+
+  it("should stop at cycles", () => {
+    const a = new Error("a")
+    const b = new Error("b", { cause: a })
+    Object.assign(a, { cause: b })
+    expect([...causes(a)]).toEqual([b])
+  })
+
+  it("should stop after maxDepth causes", () => {
+    expect([...causes(unavailable, { maxDepth: 2 })]).toEqual([
+      loadFailed,
+      timeout,
+    ])
+  })
+})
+
+describe("rootCause", () => {
+  it("should return the deepest cause", () => {
+    expect(rootCause(unavailable)).toBe(socketError)
+    expect(rootCause(unavailable, { maxDepth: 2 })).toBe(timeout)
+  })
+
+  it("should return the error itself when it has no cause", () => {
+    const err = ApiError.unavailable`Unavailable`
+    expect(rootCause(err)).toBe(err)
+  })
+})
+
+describe("findCause / hasCause", () => {
+  it("should find the first cause matching a guard", () => {
+    const found = findCause(unavailable, DbError.timeout)
+    expect(found).toBe(timeout)
+    expect(found?.data.query).toBe("SELECT 1")
+    expect(findCause(unavailable, isErr)).toBe(loadFailed)
+  })
+
+  it("should find native errors in the chain", () => {
+    const isError = (value: unknown): value is Error => value instanceof Error
+    expect(findCause(unavailable, isError)).toBe(socketError)
+  })
+
+  it("should return undefined when nothing matches", () => {
+    expect(findCause(unavailable, DbError.connection)).toBeUndefined()
+  })
+
+  it("should check whether any cause matches", () => {
+    expect(hasCause(unavailable, DbError.timeout)).toBe(true)
+    expect(hasCause(unavailable, DbError)).toBe(true)
+    expect(hasCause(unavailable, DbError.connection)).toBe(false)
+    expect(hasCause(unavailable, ApiError)).toBe(false)
+  })
+
+  it("should respect maxDepth", () => {
+    expect(hasCause(unavailable, DbError.timeout, { maxDepth: 1 })).toBe(false)
+  })
+})
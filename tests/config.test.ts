@@ -4,7 +4,15 @@
  */
 
 import { afterEach, describe, expect, it } from "bun:test"
-import { configure, errorSet, getConfig, resetConfig } from "../src/index.ts"
+import { withConfig } from "../src/context.ts"
+import {
+  configure,
+  errorSet,
+  format,
+  getConfig,
+  REDACTED,
+  resetConfig,
+} from "../src/index.ts"
 
 describe("Configuration System", () => {
   afterEach(() => {
@@ -17,6 +25,8 @@ describe("Configuration System", () => {
       expect(config.format).toBe("pretty")
       expect(config.includeStack).toBe(false)
       expect(config.includeTimestamp).toBe(false)
+      expect(config.timestampFormat).toBe("epoch")
+      expect(config.clock).toBe(Date.now)
       expect(config.colors).toBe(true)
       expect(config.stackDepth).toBe(10)
     })
@@ -143,3 +153,173 @@ describe("Stack Trace Configuration", () => {
     expect(lines.length).toBeGreaterThan(0)
   })
 })
+
+describe("Timestamp Configuration", () => {
+  type User = { id: string }
+
+  const fixedClock = () => 1_704_395_200_000
+
+  afterEach(() => {
+    resetConfig()
+  })
+
+  it("should not include timestamp by default", () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+    const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+    expect(err.timestamp).toBeUndefined()
+    expect(UserError.not_found`Gone`.timestamp).toBeUndefined()
+  })
+
+  it("should stamp epoch milliseconds when configured globally", () => {
+    configure({ includeTimestamp: true, clock: fixedClock })
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+    const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+    expect(err.timestamp).toBe(1_704_395_200_000)
+  })
+
+  it("should use Date.now by default", () => {
+    configure({ includeTimestamp: true })
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+    const before = Date.now()
+    const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+    expect(err.timestamp).toBeGreaterThanOrEqual(before)
+    expect(err.timestamp).toBeLessThanOrEqual(Date.now())
+  })
+
+  it("should stamp ISO strings when timestampFormat is iso", () => {
+    configure({
+      includeTimestamp: true,
+      timestampFormat: "iso",
+      clock: fixedClock,
+    })
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+    const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+    expect(err.timestamp).toBe("2024-01-04T19:06:40.000Z")
+  })
+
+  it("should include timestamp when configured per-instance", () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>({
+      includeTimestamp: true,
+      clock: fixedClock,
+    })
+    const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+    expect(err.timestamp).toBe(1_704_395_200_000)
+  })
+
+  it("should stamp callable errors at creation and on each call", () => {
+    let now = 1000
+    configure({ includeTimestamp: true, clock: () => now })
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+
+    const err = UserError.not_found`User not found`
+    now = 2000
+    const called = err()
+
+    expect(err.timestamp).toBe(1000)
+    expect(called.timestamp).toBe(2000)
+  })
+
+  it("should read the clock at creation time", () => {
+    let now = 1000
+    const UserError = errorSet("UserError", ["not_found"]).init<User>({
+      includeTimestamp: true,
+      clock: () => now,
+    })
+    const creator = UserError.not_found`User ${"id"} not found`
+    now = 5000
+    expect(creator({ id: "123" }).timestamp).toBe(5000)
+  })
+})
+
+describe("Configuration Layers", () => {
+  type User = { id: string; token: string }
+
+  afterEach(() => {
+    resetConfig()
+  })
+
+  it("should keep the global configuration immutable", () => {
+    const before = getConfig()
+    configure({ format: "json" })
+    expect(before.format).toBe("pretty")
+    expect(Object.isFrozen(getConfig())).toBe(true)
+  })
+
+  it("should apply scoped overrides without touching the global layer", async () => {
+    const inside = await withConfig({ format: "json" }, async () => {
+      await Promise.resolve()
+      return getConfig().format
+    })
+    expect(inside).toBe("json")
+    expect(getConfig().format).toBe("pretty")
+  })
+
+  it("should keep parallel scopes apart", async () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+    const run = (includeStack: boolean) =>
+      withConfig({ includeStack }, async () => {
+        await new Promise(resolve => setTimeout(resolve, 1))
+        return UserError.not_found`Gone`.stack
+      })
+    const [withStack, withoutStack] = await Promise.all([run(true), run(false)])
+    expect(withStack).toBeString()
+    expect(withoutStack).toBeUndefined()
+  })
+
+  it("should merge nested scopes", () => {
+    withConfig({ format: "json", colors: false }, () => {
+      withConfig({ format: "minimal" }, () => {
+        expect(getConfig().format).toBe("minimal")
+        expect(getConfig().colors).toBe(false)
+      })
+    })
+  })
+
+  it("should layer global, set, scope and call options in order", () => {
+    configure({ includeTimestamp: true, clock: () => 1 })
+    const UserError = errorSet("UserError", ["not_found"]).init<User>({
+      clock: () => 2,
+    })
+    const create = (options?: { config: { clock: () => number } }) =>
+      UserError.not_found`User ${"id"}`({ id: "1" }, options).timestamp
+
+    expect(create()).toBe(2)
+    withConfig({ clock: () => 3 }, () => {
+      expect(create()).toBe(3)
+      expect(create({ config: { clock: () => 4 } })).toBe(4)
+    })
+
+    const callable = UserError.not_found`Gone`
+    expect(callable({ config: { includeStack: true } }).stack).toBeString()
+    expect(callable().stack).toBeUndefined()
+  })
+
+  it("should add redaction rules from every layer", () => {
+    configure({ redact: ["id"] })
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+    const err = withConfig({ redact: ["token"] }, () =>
+      UserError.not_found`User ${"id"} ${"token"}`({ id: "1", token: "t" })
+    )
+    expect(err.data).toEqual({ id: REDACTED, token: REDACTED })
+  })
+
+  it("should merge stack filter options from every layer", () => {
+    configure({ stackFilter: { exclude: ["/vendor/"] } })
+    withConfig({ stackFilter: { nodeModules: false } }, () => {
+      expect(getConfig().stackFilter).toEqual({
+        exclude: ["/vendor/"],
+        nodeModules: false,
+      })
+    })
+  })
+
+  it("should render with the per-call format where the error is shown", () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+    const err = UserError.not_found`User ${"id"}`(
+      { id: "1" },
+      { config: { format: "minimal" } }
+    )
+    expect(String(err)).toBe("not_found:1")
+    expect(format(err, { format: "minimal" })).toBe("not_found:1")
+  })
+})
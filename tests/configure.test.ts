@@ -0,0 +1,167 @@
+/**
+ * Unit tests for configuration validation and environment variables.
+ * @module tests/configure
+ */
+
+import { afterEach, describe, expect, it } from "bun:test"
+import {
+  type Config,
+  ConfigError,
+  configure,
+  configureFromEnv,
+  getConfig,
+  resetConfig,
+  validateConfig,
+} from "../src/index.ts"
+
+/** Passes untyped options, as read from a JS or JSON config file */
+const untyped = (options: unknown) => options as Partial<Config>
+
+afterEach(() => {
+  resetConfig()
+})
+
+describe("configure validation", () => {
+  it("should return an invalid_option error describing the value", () => {
+    const err = configure(untyped({ format: "yaml" }))
+    expect(ConfigError.invalid_option(err)).toBe(true)
+    expect(err?.message).toBe(
+      'Invalid format: "yaml" (expected "pretty" | "json" | "minimal")'
+    )
+    expect(err?.data).toEqual({
+      option: "format",
+      received: '"yaml"',
+      expected: '"pretty" | "json" | "minimal"',
+    })
+  })
+
+  it("should reject values of the wrong type or range", () => {
+    const invalid = [
+      { stackDepth: -1 },
+      { stackDepth: 1.5 },
+      { includeStack: "yes" },
+      { clock: 0 },
+      { redact: ["email", 1] },
+      { redactStyle: "blur" },
+      { timestampFormat: "unix" },
+      { stackFilter: { internal: "no" } },
+      { stackFilter: { exclude: [1] } },
+      { stackFilter: { vendor: true } },
+      { sourceMaps: 1 },
+      { hooks: { onCreate: "log" } },
+      { hooks: { onDelete: () => undefined } },
+    ]
+    for (const options of invalid) {
+      expect(ConfigError.invalid_option(validateConfig(options))).toBe(true)
+    }
+  })
+
+  it("should describe values that JSON cannot represent", () => {
+    expect(configure(untyped({ stackDepth: 10n }))?.data).toMatchObject({
+      option: "stackDepth",
+      received: "10n",
+    })
+    const hooks: Record<string, unknown> = { onCreate: "log" }
+    hooks.self = hooks
+    const err = configure(untyped({ hooks }))
+    expect(ConfigError.invalid_option(err)).toBe(true)
+    expect(err?.data).toMatchObject({
+      option: "hooks",
+      received: "an unserializable object",
+    })
+  })
+
+  it("should return an unknown_option error for misspelled options", () => {
+    const err = configure(untyped({ includeStacks: true }))
+    expect(ConfigError.unknown_option(err)).toBe(true)
+    expect(err?.message).toBe("Unknown option includeStacks")
+  })
+
+  it("should reject options that are not an object", () => {
+    expect(validateConfig(null)?.message).toBe(
+      "Invalid options: null (expected an object)"
+    )
+    expect(validateConfig(() => undefined)?.data).toMatchObject({
+      received: "a function",
+    })
+  })
+
+  it("should apply nothing when any option is invalid", () => {
+    configure(untyped({ format: "json", stackDepth: -1 }))
+    expect(getConfig().format).toBe("pretty")
+  })
+
+  it("should apply valid options and ignore undefined ones", () => {
+    const hooks = { onCreate: () => undefined }
+    expect(
+      configure({ format: "json", stackDepth: 0, colors: undefined, hooks })
+    ).toBeUndefined()
+    expect(getConfig().format).toBe("json")
+    expect(getConfig().stackDepth).toBe(0)
+    expect(getConfig().colors).toBe(true)
+  })
+})
+
+describe("configureFromEnv", () => {
+  it("should read and coerce ERRORSET_ variables", () => {
+    const err = configureFromEnv({
+      ERRORSET_FORMAT: "json",
+      ERRORSET_INCLUDE_STACK: "TRUE",
+      ERRORSET_INCLUDE_TIMESTAMP: "1",
+      ERRORSET_TIMESTAMP_FORMAT: "iso",
+      ERRORSET_COLORS: "no",
+      ERRORSET_STACK_DEPTH: "25",
+      ERRORSET_SOURCE_MAPS: "yes",
+      ERRORSET_REDACT: "email, auth.token,",
+      ERRORSET_REDACT_STYLE: "hash",
+    })
+    expect(err).toBeUndefined()
+    expect(getConfig()).toMatchObject({
+      format: "json",
+      includeStack: true,
+      includeTimestamp: true,
+      timestampFormat: "iso",
+      colors: false,
+      stackDepth: 25,
+      sourceMaps: true,
+      redact: ["email", "auth.token"],
+      redactStyle: "hash",
+    })
+  })
+
+  it("should ignore unset and empty variables", () => {
+    expect(
+      configureFromEnv({ ERRORSET_FORMAT: "", OTHER: "x" })
+    ).toBeUndefined()
+    expect(getConfig().format).toBe("pretty")
+  })
+
+  it("should name the variable in errors and apply nothing", () => {
+    const depth = configureFromEnv({
+      ERRORSET_FORMAT: "json",
+      ERRORSET_STACK_DEPTH: "deep",
+    })
+    expect(depth?.message).toBe(
+      'Invalid ERRORSET_STACK_DEPTH: "deep" (expected a non-negative integer)'
+    )
+    expect(getConfig().format).toBe("pretty")
+
+    const blank = configureFromEnv({ ERRORSET_STACK_DEPTH: " " })
+    expect(blank?.data).toMatchObject({ received: '" "' })
+    const stack = configureFromEnv({ ERRORSET_INCLUDE_STACK: "maybe" })
+    expect(stack?.data).toMatchObject({
+      option: "ERRORSET_INCLUDE_STACK",
+      expected: "true or false",
+    })
+  })
+
+  it("should read process.env by default", () => {
+    process.env.ERRORSET_FORMAT = "minimal"
+    try {
+      expect(configureFromEnv()).toBeUndefined()
+      expect(getConfig().format).toBe("minimal")
+    } finally {
+      Reflect.deleteProperty(process.env, "ERRORSET_FORMAT")
+    }
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * Unit tests for request-scoped error context.
+ * @module tests/context
+ */
+
+import { afterEach, describe, expect, it } from "bun:test"
+import { getErrorContext, withErrorContext } from "../src/context.ts"
+import {
+  collect,
+  type ErrAggregate,
+  errorSet,
+  format,
+  REDACTED,
+  resetConfig,
+  serialize,
+} from "../src/index.ts"
+
+type User = { id: string }
+
+const UserError = errorSet("UserError", ["not_found", "invalid"]).init<User>()
+
+afterEach(() => {
+  resetConfig()
+})
+
+describe("withErrorContext", () => {
+  it("should attach the context to errors created in the scope", () => {
+    const err = withErrorContext({ requestId: "r1" }, () =>
+      UserError.not_found`User ${"id"} not found`({ id: "1" })
+    )
+    expect(err.context).toEqual({ requestId: "r1" })
+    expect(err.data).toEqual({ id: "1" })
+  })
+
+  it("should attach the context to callable errors and their calls", () => {
+    const [callable, called] = withErrorContext({ requestId: "r1" }, () => {
+      const invalid = UserError.invalid`Invalid user`
+      return [invalid, invalid({ cause: "boom" })] as const
+    })
+    expect(callable.context).toEqual({ requestId: "r1" })
+    expect(called.context).toEqual({ requestId: "r1" })
+  })
+
+  it("should keep the context across awaits", async () => {
+    const err = await withErrorContext({ tenant: "acme" }, async () => {
+      await Promise.resolve()
+      return UserError.invalid`Invalid user`
+    })
+    expect(err.context).toEqual({ tenant: "acme" })
+  })
+
+  it("should merge nested scopes, inner fields winning", () => {
+    withErrorContext({ requestId: "r1", user: "a" }, () => {
+      withErrorContext({ user: "b" }, () => {
+        expect(getErrorContext()).toEqual({ requestId: "r1", user: "b" })
+      })
+      expect(getErrorContext()).toEqual({ requestId: "r1", user: "a" })
+    })
+  })
+
+  it("should leave errors outside a scope without context", () => {
+    expect(getErrorContext()).toEqual({})
+    expect("context" in UserError.invalid`Invalid user`).toBe(false)
+    const empty = withErrorContext({}, () => UserError.invalid`Invalid user`)
+    expect(empty.context).toBeUndefined()
+  })
+})
+
+describe("context output", () => {
+  const err = withErrorContext({ requestId: "r1" }, () =>
+    UserError.not_found`User ${"id"} not found`({ id: "1" })
+  )
+
+  it("should appear in the JSON format", () => {
+    const json = JSON.parse(format(err, { format: "json" }))
+    expect(json.context).toEqual({ requestId: "r1" })
+  })
+
+  it("should survive serialization", () => {
+    const payload = JSON.parse(JSON.stringify(serialize(err)))
+    expect(payload.context).toEqual({ requestId: "r1" })
+    expect(UserError.deserialize(payload).context).toEqual({ requestId: "r1" })
+    expect(() => UserError.deserialize({ ...payload, context: "r1" })).toThrow(
+      "Invalid serialized error: context must be an object"
+    )
+  })
+
+  it("should be kept by aggregate children", () => {
+    const [child] = (collect({ user: err }) as ErrAggregate).data.errors
+    expect(child?.context).toEqual({ requestId: "r1" })
+  })
+
+  it("should be redacted with the data rules", () => {
+    const AuthError = errorSet("AuthError", ["denied"]).init<User>({
+      redact: ["token"],
+    })
+    const denied = withErrorContext({ token: "t0k3n", user: "a" }, () =>
+      AuthError.denied`Denied ${"id"}`({ id: "1" })
+    )
+    expect(denied.context).toEqual({ token: REDACTED, user: "a" })
+  })
+})
@@ -206,7 +206,9 @@ describe("errorSet Helper Methods", () => {
 describe("errorSet Custom Inspect", () => {
   type User = { id: string; name: string }
 
-  const UserError = errorSet("UserError", ["not_found"]).init<User>()
+  const UserError = errorSet("UserError", ["not_found"]).init<User>({
+    colors: false,
+  })
 
   it("should have custom inspect symbol for Node.js debuggers", () => {
     const err = UserError.not_found`User ${"id"} not found`({
@@ -220,6 +222,69 @@ describe("errorSet Custom Inspect", () => {
       (() => string) | undefined
     >
     const inspectFn = errWithInspect[inspectSymbol]
-    expect(inspectFn?.()).toBe('UserError.not_found {"id":"123"}')
+    expect(inspectFn?.()).toBe(
+      'UserError.not_found - User 123 not found {"id":"123"}'
+    )
+  })
+})
+
+describe("errorSet Per-Kind Data", () => {
+  const FormError = errorSet("FormError", [
+    "not_found",
+    "validation",
+    "timeout",
+  ]).initPerKind<{
+    not_found: { id: string }
+    validation: { field: string; reason: string }
+    timeout: Record<string, never>
+  }>()
+
+  it("should keep the kind's full data, not just template holes", () => {
+    const err = FormError.validation`${"field"} is invalid`({
+      field: "email",
+      reason: "missing @",
+    })
+    expect(err.message).toBe("email is invalid")
+    expect(err.data).toEqual({ field: "email", reason: "missing @" })
+  })
+
+  it("should create errors without template holes from data", () => {
+    const err = FormError.not_found`Not found`({ id: "123" })
+    expect(err.kind).toBe("not_found")
+    expect(err.data).toEqual({ id: "123" })
+  })
+
+  it("should use no-data kinds directly or with a cause", () => {
+    const cause = FormError.not_found`Not found`({ id: "1" })
+    const direct = FormError.timeout`Timed out`
+    const wrapped = FormError.timeout`Timed out`({}, { cause })
+    expect(direct.kind).toBe("timeout")
+    expect(direct.data).toEqual({})
+    expect(wrapped.data).toEqual({})
+    expect(wrapped.cause).toBe(cause)
+  })
+
+  it("should work with guards and recover", () => {
+    const err: typeof FormError.Type = FormError.validation`Invalid`({
+      field: "name",
+      reason: "empty",
+    })
+    expect(FormError(err)).toBe(true)
+    expect(FormError.validation(err)).toBe(true)
+    const reason = FormError.recover(err, {
+      validation: e => e.data.reason,
+      _: () => "other",
+    })
+    expect(reason).toBe("empty")
+  })
+
+  it("should not change data for entity-bound sets", () => {
+    const UserError = errorSet("UserError", ["invalid"]).init<{
+      id: string
+      name: string
+    }>()
+    const user = { id: "1", name: "John" }
+    const err = UserError.invalid`User ${"id"} is invalid`(user)
+    expect(err.data).toEqual({ id: "1" })
   })
 })
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the native Error bridge.
+ * @module tests/exception
+ */
+
+import { describe, expect, it, mock } from "bun:test"
+import {
+  captureSync,
+  type Err,
+  ErrorSetException,
+  errorSet,
+  expect as expectOk,
+  toError,
+  unwrap,
+} from "../src/index.ts"
+
+type User = { id: string; name: string }
+type Db = { query: string }
+
+const UserError = errorSet("UserError", ["not_found", "suspended"]).init<User>()
+const DbError = errorSet("DbError", ["timeout"]).init<Db>()
+
+const notFound = UserError.not_found`User ${"id"} not found`({ id: "123" })
+
+describe("toError", () => {
+  it("should return a native Error with set, kind and data", () => {
+    const error = toError(notFound)
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toBeInstanceOf(ErrorSetException)
+    expect(error.name).toBe("ErrorSetException")
+    expect(error.message).toBe("User 123 not found")
+    expect(error.set).toBe("UserError")
+    expect(error.kind).toBe("not_found")
+    expect(error.data).toEqual({ id: "123" })
+    expect(error.err).toBe(notFound)
+  })
+
+  it("should map the cause chain onto native Error.cause", () => {
+    const dbErr = DbError.timeout`Query ${"query"} timed out`({ query: "q" })
+    const err = UserError.suspended`Lookup failed`({ cause: dbErr })
+    const error = toError(err)
+    expect(error.cause).toBeInstanceOf(ErrorSetException)
+    expect((error.cause as ErrorSetException).err).toBe(dbErr)
+    expect((error.cause as ErrorSetException).cause).toBeUndefined()
+  })
+
+  it("should keep foreign causes as-is", () => {
+    const cause = new TypeError("fetch failed")
+    const error = toError(UserError.suspended`Lookup failed`({ cause }))
+    expect(error.cause).toBe(cause)
+  })
+
+  it("should throw for values that are not errors", () => {
+    expect(() => toError({ kind: "not_found" } as unknown as Err)).toThrow(
+      "Cannot convert a value that is not an error set value"
+    )
+  })
+})
+
+describe("unwrap / expect", () => {
+  const getUser = (id: string): User | typeof UserError.Type =>
+    id === "123" ? { id, name: "John" } : notFound
+
+  it("should return success values", () => {
+    expect(unwrap(getUser("123"))).toEqual({ id: "123", name: "John" })
+    expect(expectOk(getUser("123"), "user must exist").name).toBe("John")
+  })
+
+  it("should throw errors as ErrorSetException", () => {
+    expect(() => unwrap(getUser("1"))).toThrow(ErrorSetException)
+    expect(() => unwrap(getUser("1"))).toThrow("User 123 not found")
+  })
+
+  it("should prefix the message with expect's context", () => {
+    expect(() => expectOk(getUser("1"), "user must exist")).toThrow(
+      "user must exist: User 123 not found"
+    )
+  })
+})
+
+describe("capture with ErrorSetException", () => {
+  it("should return the original error instead of mapping it", () => {
+    const mapper = mock(() => UserError.suspended`Mapped`)
+    const result = UserError.capture(() => unwrap(notFound), mapper)
+    expect(result).toBe(notFound)
+    expect(mapper).not.toHaveBeenCalled()
+  })
+
+  it("should return the original error from async code", async () => {
+    const mapper = mock(() => UserError.suspended`Mapped`)
+    const result = await UserError.captureAsync(async () => {
+      await Promise.resolve()
+      throw toError(notFound)
+    }, mapper)
+    expect(result).toBe(notFound)
+    expect(mapper).not.toHaveBeenCalled()
+  })
+
+  it("should map exceptions of other sets", () => {
+    const timeout = DbError.timeout`Query timed out`
+    const result = UserError.capture(
+      () => unwrap(timeout),
+      error => UserError.suspended`Mapped`({ cause: error })
+    )
+    expect(UserError(result)).toBe(true)
+    expect(UserError.suspended(result)).toBe(true)
+  })
+
+  it("should map exceptions of other sets that share a kind", async () => {
+    const AccountError = errorSet("AccountError", ["not_found"]).init<User>()
+    const mapper = () => AccountError.not_found`Mapped`
+    const sync = AccountError.capture(() => unwrap(notFound), mapper)
+    const async = await AccountError.captureAsync(async () => {
+      await Promise.resolve()
+      throw toError(notFound)
+    }, mapper)
+    for (const result of [sync, async]) {
+      expect(result).not.toBe(notFound)
+      expect(AccountError.strict(result)).toBe(true)
+    }
+  })
+
+  it("should return exceptions of any set from captureSync", () => {
+    const timeout = DbError.timeout`Query timed out`
+    const result = captureSync(
+      () => unwrap(timeout),
+      () => UserError.suspended`Mapped`
+    )
+    expect(result).toBe(timeout)
+  })
+})
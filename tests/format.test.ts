@@ -0,0 +1,230 @@
+/**
+ * Unit tests for the rendering subsystem.
+ * @module tests/format
+ */
+
+import { afterEach, describe, expect, it } from "bun:test"
+import { configure, errorSet, format, resetConfig } from "../src/index.ts"
+
+type User = { id: string; name: string }
+
+const inspectSymbol = Symbol.for("nodejs.util.inspect.custom")
+
+describe("format", () => {
+  const UserError = errorSet("UserError", [
+    "not_found",
+    "suspended",
+  ]).init<User>()
+
+  afterEach(() => {
+    resetConfig()
+  })
+
+  describe("pretty", () => {
+    it("should render name, kind, message and data without colors", () => {
+      const err = UserError.not_found`User ${"id"} not found`({ id: "abc123" })
+      expect(
+        format(err, { format: "pretty", colors: false, name: "UserError" })
+      ).toBe('UserError.not_found - User abc123 not found {"id":"abc123"}')
+    })
+
+    it("should default the name to the owning set", () => {
+      const err = UserError.not_found`User not found`
+      expect(format(err, { format: "pretty", colors: false })).toBe(
+        "UserError.not_found - User not found"
+      )
+    })
+
+    it("should omit the set name for errors without one", () => {
+      const err = { ...UserError.not_found`User not found`(), set: "" }
+      expect(format(err, { format: "pretty", colors: false })).toBe(
+        "not_found - User not found"
+      )
+    })
+
+    it("should wrap the header in ANSI colors when enabled", () => {
+      const err = UserError.not_found`User ${"id"} not found`({ id: "abc123" })
+      const output = format(err, { format: "pretty", colors: true })
+      expect(output).toBe(
+        "\u001b[1m\u001b[31mUserError.not_found\u001b[0m - User abc123 not found " +
+          '\u001b[2m{"id":"abc123"}\u001b[0m'
+      )
+    })
+
+    it("should render stack frames as indented lines", () => {
+      const err = {
+        ...UserError.not_found`User not found`(),
+        stack: "Error\n    at getUser (src/users.ts:42)\n    at main (a.ts:1)",
+      }
+      expect(format(err, { format: "pretty", colors: false })).toBe(
+        "UserError.not_found - User not found\n" +
+          "  at getUser (src/users.ts:42)\n" +
+          "  at main (a.ts:1)"
+      )
+    })
+
+    it("should render the cause chain", () => {
+      const cause = UserError.suspended`Account ${"id"} suspended`({ id: "1" })
+      const err = UserError.not_found`User ${"id"} not found`(
+        { id: "1" },
+        { cause }
+      )
+      expect(format(err, { format: "pretty", colors: false })).toBe(
+        'UserError.not_found - User 1 not found {"id":"1"}\n' +
+          '  caused by: UserError.suspended - Account 1 suspended {"id":"1"}'
+      )
+    })
+
+    it("should render foreign causes by name and message", () => {
+      const err = UserError.not_found`User not found`({
+        cause: new TypeError("fetch failed"),
+      })
+      expect(format(err, { format: "pretty", colors: false })).toBe(
+        "UserError.not_found - User not found\n" +
+          "  caused by: TypeError: fetch failed"
+      )
+    })
+
+    it("should render causes behind native errors", () => {
+      const suspended = UserError.suspended`Suspended`
+      const err = UserError.not_found`User not found`({
+        cause: new Error("request failed", { cause: suspended }),
+      })
+      expect(format(err, { format: "pretty", colors: false })).toBe(
+        "UserError.not_found - User not found\n" +
+          "  caused by: Error: request failed\n" +
+          "  caused by: UserError.suspended - Suspended"
+      )
+    })
+  })
+
+  describe("json", () => {
+    it("should render kind, message and data", () => {
+      const err = UserError.not_found`User ${"id"} not found`({ id: "abc123" })
+      expect(format(err, { format: "json" })).toBe(
+        '{"kind":"not_found","message":"User abc123 not found","data":{"id":"abc123"}}'
+      )
+    })
+
+    it("should include timestamp, stack and nested cause", () => {
+      const cause = UserError.suspended`Suspended`
+      const err = {
+        ...UserError.not_found`Missing`({ cause }),
+        timestamp: 1_704_395_200,
+        stack: "Error\n    at f (a.ts:1)",
+      }
+      expect(JSON.parse(format(err, { format: "json" }))).toEqual({
+        kind: "not_found",
+        message: "Missing",
+        data: {},
+        timestamp: 1_704_395_200,
+        stack: "Error\n    at f (a.ts:1)",
+        cause: { kind: "suspended", message: "Suspended", data: {} },
+      })
+    })
+
+    it("should render foreign causes as name, message and stack", () => {
+      const cause = new RangeError("out of range")
+      const err = UserError.not_found`Missing`({ cause })
+      expect(JSON.parse(format(err, { format: "json" })).cause).toEqual({
+        name: "RangeError",
+        message: "out of range",
+        stack: cause.stack,
+      })
+    })
+
+    it("should continue the cause chain through native errors", () => {
+      const suspended = UserError.suspended`Suspended`
+      const cause = new Error("request failed", { cause: suspended })
+      const err = UserError.not_found`Missing`({ cause })
+      expect(JSON.parse(format(err, { format: "json" })).cause.cause).toEqual({
+        kind: "suspended",
+        message: "Suspended",
+        data: {},
+      })
+    })
+  })
+
+  describe("minimal", () => {
+    it("should render kind and data values", () => {
+      const err = UserError.not_found`User ${"id"} (${"name"}) not found`({
+        id: "abc123",
+        name: "John",
+      })
+      expect(format(err, { format: "minimal" })).toBe("not_found:abc123,John")
+    })
+
+    it("should render only the kind when data is empty", () => {
+      const err = UserError.not_found`User not found`
+      expect(format(err, { format: "minimal" })).toBe("not_found")
+    })
+  })
+
+  it("should default to the global configuration", () => {
+    configure({ format: "minimal" })
+    const err = UserError.not_found`User ${"id"} not found`({ id: "abc123" })
+    expect(format(err)).toBe("not_found:abc123")
+  })
+})
+
+describe("Err rendering methods", () => {
+  afterEach(() => {
+    resetConfig()
+  })
+
+  it("should use the global format for toString and inspect", () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+    const err = UserError.not_found`User ${"id"} not found`({ id: "abc123" })
+    configure({ format: "minimal" })
+
+    const inspectFn = (err as unknown as Record<symbol, () => string>)[
+      inspectSymbol
+    ]
+    expect(String(err)).toBe("not_found:abc123")
+    expect(inspectFn?.()).toBe("not_found:abc123")
+  })
+
+  it("should apply per-set format overrides", () => {
+    configure({ format: "minimal" })
+    const UserError = errorSet("UserError", ["not_found"]).init<User>({
+      format: "pretty",
+      colors: false,
+    })
+    const err = UserError.not_found`User ${"id"} not found`({ id: "abc123" })
+    expect(err.toString()).toBe(
+      'UserError.not_found - User abc123 not found {"id":"abc123"}'
+    )
+  })
+
+  it("should render callable errors and their call results", () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>({
+      format: "minimal",
+    })
+    const err = UserError.not_found`User not found`
+    expect(err.toString()).toBe("not_found")
+    expect(err().toString()).toBe("not_found")
+  })
+
+  it("should serialize through JSON.stringify regardless of format", () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>({
+      format: "minimal",
+    })
+    const err = UserError.not_found`User ${"id"} not found`({ id: "abc123" })
+    expect(JSON.parse(JSON.stringify(err))).toEqual({
+      kind: "not_found",
+      message: "User abc123 not found",
+      data: { id: "abc123" },
+    })
+    expect(JSON.parse(JSON.stringify(UserError.not_found`Gone`))).toEqual({
+      kind: "not_found",
+      message: "Gone",
+      data: {},
+    })
+  })
+
+  it("should not expose rendering methods as enumerable keys", () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>()
+    const err = UserError.not_found`User ${"id"} not found`({ id: "abc123" })
+    expect(Object.keys(err)).toEqual(["kind", "message", "data", "set"])
+  })
+})
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for gen early return.
+ * @module tests/gen
+ */
+
+import { describe, expect, it, mock } from "bun:test"
+import { errorSet, gen } from "../src/index.ts"
+
+type User = { id: string; name: string }
+type Order = { id: string; total: number }
+
+const UserError = errorSet("UserError", ["not_found"]).init<User>()
+const OrderError = errorSet("OrderError", ["empty"]).init<Order>()
+
+type UserErr = typeof UserError.Type
+type OrderErr = typeof OrderError.Type
+
+const john: User = { id: "1", name: "John" }
+
+const getUser = (id: string): User | UserErr =>
+  id === "1" ? john : UserError.not_found`User ${"id"} not found`({ id })
+const getOrder = (user: User): Order | OrderErr =>
+  user.id === "1"
+    ? { id: "o1", total: 10 }
+    : OrderError.empty`Order ${"id"} is empty`({ id: "o2" })
+
+describe("gen", () => {
+  it("should unwrap success values and return the final value", () => {
+    const result = gen(function* ($) {
+      const user = yield* $(getUser("1"))
+      const order = yield* $(getOrder(user))
+      return `${user.name}: ${order.total}`
+    })
+    expect(result).toBe("John: 10")
+  })
+
+  it("should short-circuit on the first error", () => {
+    const after = mock(() => undefined)
+    const result = gen(function* ($) {
+      const user = yield* $(getUser("2"))
+      after()
+      return user.name
+    })
+    expect(UserError.not_found(result)).toBe(true)
+    expect(after).not.toHaveBeenCalled()
+  })
+
+  it("should return the error unchanged with its cause chain", () => {
+    const cause = UserError.not_found`User not found`
+    const err = OrderError.empty`Order ${"id"} is empty`(
+      { id: "o1" },
+      { cause }
+    )
+    const result = gen(function* ($) {
+      yield* $(err as Order | OrderErr)
+      return "unreachable"
+    })
+    expect(result).toBe(err)
+    expect((result as OrderErr).cause).toBe(cause)
+  })
+
+  it("should run finally blocks when short-circuiting", () => {
+    const cleanup = mock(() => undefined)
+    gen(function* ($) {
+      try {
+        return yield* $(getUser("2"))
+      } finally {
+        cleanup()
+      }
+    })
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+
+  it("should propagate thrown exceptions", () => {
+    expect(() =>
+      gen(function* ($) {
+        yield* $(getUser("1"))
+        throw new Error("boom")
+      })
+    ).toThrow("boom")
+  })
+})
+
+describe("gen with async generators", () => {
+  const fetchUser = (id: string) => Promise.resolve(getUser(id))
+
+  it("should resolve the final value", async () => {
+    const result = await gen(async function* ($) {
+      const user = yield* $(await fetchUser("1"))
+      const order = yield* $(getOrder(user))
+      return order.total
+    })
+    expect(result).toBe(10)
+  })
+
+  it("should resolve the first error", async () => {
+    const cleanup = mock(() => undefined)
+    const result = await gen(async function* ($) {
+      try {
+        const user = yield* $(await fetchUser("2"))
+        return user.name
+      } finally {
+        cleanup()
+      }
+    })
+    expect(UserError.not_found(result)).toBe(true)
+    expect(cleanup).toHaveBeenCalledTimes(1)
+  })
+})
@@ -1,5 +1,6 @@
 /**
- * Unit tests for helper methods: recover, inspect, merge, capture.
+ * Unit tests for helper methods: recover, inspect, match, merge, capture
+ * and their async variants.
  * @module tests/helpers
  */
 
@@ -8,7 +9,10 @@ import {
   createSetGuardWithKinds,
   type Err,
   errorSet,
+  inspectAsync,
+  match,
   merge,
+  recoverAsync,
 } from "../src/index.ts"
 
 // Pre-define regex at module level
@@ -122,6 +126,203 @@ describe("inspect Method", () => {
   })
 })
 
+describe("recoverAsync Method", () => {
+  type User = { id: string; name: string }
+
+  const UserError = errorSet("UserError", [
+    "not_found",
+    "suspended",
+  ]).init<User>()
+
+  const lookup = (id: string) =>
+    Promise.resolve(
+      id === "missing"
+        ? UserError.not_found`User ${"id"} not found`({ id })
+        : UserError.suspended`Account ${"id"} suspended`({ id })
+    )
+
+  it("should resolve the success value unchanged", async () => {
+    const user = { id: "123", name: "John" }
+    const result = await UserError.recoverAsync(Promise.resolve(user), {
+      _: () => ({ id: "default", name: "Guest" }),
+    })
+    expect(result).toBe(user)
+  })
+
+  it("should await async handlers for the matching kind", async () => {
+    const result = await UserError.recoverAsync(lookup("missing"), {
+      not_found: async e => {
+        await Promise.resolve()
+        return { id: e.data.id ?? "", name: "From backup" }
+      },
+      _: () => ({ id: "default", name: "Guest" }),
+    })
+    expect(result).toEqual({ id: "missing", name: "From backup" })
+  })
+
+  it("should fall back to the catch-all handler", async () => {
+    const result = await UserError.recoverAsync(lookup("1"), {
+      not_found: () => ({ id: "guest", name: "Guest" }),
+      _: async () => ({ id: "default", name: "Default User" }),
+    })
+    expect(result).toEqual({ id: "default", name: "Default User" })
+  })
+
+  it("should accept a plain value", async () => {
+    const err = UserError.not_found`User not found`
+    const result = await UserError.recoverAsync(err, {
+      not_found: () => "recovered",
+    })
+    expect(result).toBe("recovered")
+  })
+
+  it("should reject if no matching handler found", async () => {
+    await expect(
+      UserError.recoverAsync(lookup("1"), {
+        not_found: () => ({ id: "guest", name: "Guest" }),
+      })
+    ).rejects.toThrow(noHandlerRegex)
+  })
+
+  it("should work as a standalone function", async () => {
+    const result = await recoverAsync(lookup("missing"), UserError, {
+      _: async e => e.kind,
+    })
+    expect(result).toBe("not_found")
+  })
+})
+
+describe("inspectAsync Method", () => {
+  type User = { id: string; name: string }
+
+  const UserError = errorSet("UserError", [
+    "not_found",
+    "suspended",
+  ]).init<User>()
+
+  it("should resolve the success value without calling handlers", async () => {
+    const handler = mock(() => undefined)
+    const user = { id: "123", name: "John" }
+    const result = await UserError.inspectAsync(Promise.resolve(user), {
+      not_found: handler,
+    })
+    expect(result).toBe(user)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it("should await the matching handler and resolve the error", async () => {
+    const audit: string[] = []
+    const err = UserError.suspended`Account ${"id"} suspended`({ id: "123" })
+    const result = await UserError.inspectAsync(Promise.resolve(err), {
+      suspended: async e => {
+        await Promise.resolve()
+        audit.push(e.data.id ?? "")
+      },
+    })
+    expect(audit).toEqual(["123"])
+    expect(result).toBe(err)
+  })
+
+  it("should ignore kinds without handlers", async () => {
+    const handler = mock(() => undefined)
+    const err = UserError.suspended`Account suspended`
+    const result = await inspectAsync(err, UserError, { not_found: handler })
+    expect(handler).not.toHaveBeenCalled()
+    expect(result).toBe(err)
+  })
+
+  it("should reject when the handler rejects", async () => {
+    const err = UserError.not_found`User not found`
+    await expect(
+      UserError.inspectAsync(err, {
+        not_found: () => Promise.reject(new Error("audit failed")),
+      })
+    ).rejects.toThrow("audit failed")
+  })
+})
+
+describe("match Method", () => {
+  type User = { id: string; name: string }
+
+  const UserError = errorSet("UserError", [
+    "not_found",
+    "suspended",
+  ]).init<User>()
+
+  it("should call ok with the success value", () => {
+    const user = { id: "123", name: "John" }
+    const result = UserError.match(user, {
+      ok: u => `user ${u.name}`,
+      not_found: () => 404,
+      suspended: () => 403,
+    })
+    expect(result).toBe("user John")
+  })
+
+  it("should call the handler for the error's kind", () => {
+    const err = UserError.suspended`Account ${"id"} suspended`({ id: "123" })
+    const result = UserError.match(err as User | typeof err, {
+      ok: () => 200,
+      not_found: () => 404,
+      suspended: e => `suspended ${e.data.id}`,
+    })
+    expect(result).toBe("suspended 123")
+  })
+
+  it("should fall back to the catch-all handler", () => {
+    const err = UserError.suspended`Account suspended`
+    const result = UserError.match(err as User | typeof err, {
+      ok: () => "ok",
+      not_found: () => "missing",
+      _: e => `other ${e.kind}`,
+    })
+    expect(result).toBe("other suspended")
+  })
+
+  it("should prefer a specific handler over the catch-all", () => {
+    const err = UserError.not_found`User not found`
+    const result = UserError.match(err as User | typeof err, {
+      ok: () => "ok",
+      not_found: () => "missing",
+      _: () => "other",
+    })
+    expect(result).toBe("missing")
+  })
+
+  it("should call ok for errors from another set", () => {
+    const OtherError = errorSet("OtherError", ["failed"]).init()
+    const other = OtherError.failed`Failed`
+    const ok = mock((value: unknown) => value)
+    UserError.match(other as unknown as User, {
+      ok,
+      _: () => undefined,
+    })
+    expect(ok).toHaveBeenCalledWith(other)
+  })
+
+  it("should throw if no handler is found", () => {
+    const err = UserError.suspended`Account suspended`
+    expect(() => {
+      UserError.match(
+        err as User | typeof err,
+        {
+          ok: () => undefined,
+          not_found: () => undefined,
+        } as never
+      )
+    }).toThrow(noHandlerRegex)
+  })
+
+  it("should work as a standalone function", () => {
+    const err = UserError.not_found`User not found`
+    const result = match(err as User | typeof err, UserError, {
+      ok: () => "ok",
+      _: e => e.kind,
+    })
+    expect(result).toBe("not_found")
+  })
+})
+
 describe("merge Method", () => {
   type User = { id: string; name: string }
   type Order = { orderId: string; total: number }
@@ -168,6 +369,91 @@ describe("merge Method", () => {
   })
 })
 
+describe("merge with multiple sets", () => {
+  type User = { id: string; name: string }
+  type Order = { orderId: string; total: number }
+  type Db = { query: string }
+
+  const UserError = errorSet("UserError", [
+    "not_found",
+    "suspended",
+  ]).init<User>()
+  const OrderError = errorSet("OrderError", ["cancelled"]).init<Order>()
+  const DbError = errorSet("DbError", ["timeout"]).init<Db>()
+
+  const ServiceError = merge(UserError, OrderError, DbError)
+
+  it("should combine kinds from all sets", () => {
+    expect(ServiceError.kinds).toEqual([
+      "not_found",
+      "suspended",
+      "cancelled",
+      "timeout",
+    ])
+    expect([...ServiceError]).toEqual([...ServiceError.kinds])
+  })
+
+  it("should accept errors from every member set", () => {
+    expect(ServiceError(UserError.suspended`Suspended`)).toBe(true)
+    expect(ServiceError(OrderError.cancelled`Cancelled`)).toBe(true)
+    expect(ServiceError(DbError.timeout`Timeout`)).toBe(true)
+    expect(DbError.timeout`Timeout` instanceof ServiceError).toBe(true)
+    expect(ServiceError({ id: "1" })).toBe(false)
+  })
+
+  it("should be equivalent to the variadic merge method", () => {
+    const viaMethod = UserError.merge(OrderError, DbError)
+    expect(viaMethod.kinds).toEqual(ServiceError.kinds)
+    expect(viaMethod(DbError.timeout`Timeout`)).toBe(true)
+  })
+
+  it("should recover with handlers typed per set", () => {
+    const err = DbError.timeout`Query ${"query"} timed out`({ query: "q" })
+    const result = ServiceError.recover(err, {
+      timeout: e => `retry ${e.data.query}`,
+      _: () => "fallback",
+    })
+    expect(result).toBe("retry q")
+  })
+
+  it("should fall back to the catch-all handler", () => {
+    const err = OrderError.cancelled`Order ${"orderId"} cancelled`({
+      orderId: "O1",
+    })
+    const result = ServiceError.recover(err, {
+      timeout: () => "timeout",
+      _: e => `caught ${e.kind}`,
+    })
+    expect(result).toBe("caught cancelled")
+  })
+
+  it("should return success values unchanged from recover", () => {
+    const user = { id: "1", name: "John" }
+    expect(ServiceError.recover(user, { _: () => null })).toBe(user)
+  })
+
+  it("should inspect with handlers typed per set", () => {
+    const handler = mock((_orderId: string | undefined) => undefined)
+    const err = OrderError.cancelled`Order ${"orderId"} cancelled`({
+      orderId: "O1",
+    })
+    ServiceError.inspect(err, {
+      cancelled: e => handler(e.data.orderId),
+    })
+    expect(handler).toHaveBeenCalledWith("O1")
+  })
+
+  it("should allow merging merged sets", () => {
+    const PaymentError = errorSet("PaymentError", ["declined"]).init<Order>()
+    const AppError = merge(ServiceError, PaymentError)
+
+    expect(AppError.kinds).toEqual([...ServiceError.kinds, "declined"])
+    expect(AppError(UserError.not_found`Missing`)).toBe(true)
+    expect(AppError(PaymentError.declined`Declined`)).toBe(true)
+    expect(AppError.strict(PaymentError.declined`Declined`)).toBe(true)
+  })
+})
+
 describe("merge Function (Standalone)", () => {
   type User = { id: string }
   type Order = { orderId: string }
@@ -178,6 +464,17 @@ describe("merge Function (Standalone)", () => {
     const merged = merge(guard1, guard2)
     expect(merged.kinds).toEqual(["a", "b", "c", "d"])
   })
+
+  it("should match on kind alone for guards without a set name", () => {
+    const guard1 = createSetGuardWithKinds<"a", User>(["a"])
+    const guard2 = createSetGuardWithKinds<"b", Order>(["b"], "OrderError")
+    const merged = merge(guard1, guard2)
+
+    const OtherError = errorSet("OtherError", ["a", "b"]).init<User>()
+    expect(merged(OtherError.a`A`)).toBe(true)
+    expect(merged(OtherError.b`B`)).toBe(false)
+    expect(guard1.strict(OtherError.a`A`)).toBe(true)
+  })
 })
 
 describe("capture Method", () => {
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for lifecycle hooks and sinks.
+ * @module tests/hooks
+ */
+
+import { afterEach, describe, expect, it, mock } from "bun:test"
+import { withConfig } from "../src/context.ts"
+import {
+  batchingSink,
+  configure,
+  type ErrorEvent,
+  errorSet,
+  memorySink,
+  resetConfig,
+  toError,
+} from "../src/index.ts"
+
+type User = { id: string }
+
+const UserError = errorSet("UserError", ["not_found", "invalid"]).init<User>()
+
+afterEach(() => {
+  resetConfig()
+})
+
+describe("hooks", () => {
+  it("should observe errors from creators and callable errors", () => {
+    const sink = memorySink()
+    configure({ hooks: sink.hooks })
+
+    const notFound = UserError.not_found`User ${"id"} not found`({ id: "1" })
+    const invalid = UserError.invalid`Invalid user`
+    const wrapped = invalid({ cause: notFound })
+    expect(sink.created()).toEqual([notFound, invalid, wrapped])
+  })
+
+  it("should observe recovered errors", () => {
+    const sink = memorySink()
+    configure({ hooks: sink.hooks })
+    const err = UserError.not_found`User ${"id"} not found`({ id: "1" })
+    sink.clear()
+
+    UserError.recover(err, { _: () => null })
+    UserError.recover("ok" as string | typeof err, { _: () => null })
+    expect(sink.events).toEqual([{ type: "recover", err }])
+  })
+
+  it("should observe captured exceptions with the thrown value", async () => {
+    const onCapture = mock()
+    configure({ hooks: { onCapture } })
+    const thrown = new Error("offline")
+    const mapped = UserError.capture(
+      () => {
+        throw thrown
+      },
+      () => UserError.invalid`Offline`
+    )
+    expect(onCapture).toHaveBeenLastCalledWith(mapped, thrown)
+
+    const original = UserError.not_found`Gone`
+    const exception = toError(original)
+    await UserError.captureAsync(
+      () => Promise.reject(exception),
+      () => mapped
+    )
+    expect(onCapture).toHaveBeenLastCalledWith(original, exception)
+  })
+
+  it("should record captures as events with the thrown value", () => {
+    const sink = memorySink()
+    configure({ hooks: sink.hooks })
+    const err = UserError.capture(
+      () => JSON.parse("{"),
+      () => UserError.invalid`Bad JSON`
+    )
+    expect(sink.events.at(-1)).toEqual({
+      type: "capture",
+      err,
+      thrown: expect.any(SyntaxError),
+    })
+  })
+
+  it("should run per-set hooks after global hooks", () => {
+    const calls: string[] = []
+    configure({ hooks: { onCreate: () => calls.push("global") } })
+    const AuditError = errorSet("AuditError", ["denied"]).init<User>({
+      hooks: { onCreate: err => calls.push(`set:${err.kind}`) },
+    })
+    AuditError.denied`Denied`
+    UserError.invalid`Invalid`
+    expect(calls).toEqual(["global", "set:denied", "global"])
+  })
+
+  it("should run the hooks of every layer, scoped ones included", async () => {
+    const calls: string[] = []
+    const reporter = memorySink()
+    configure({ hooks: reporter.hooks })
+    const AuditError = errorSet("AuditError", ["denied"]).init<User>({
+      hooks: { onCreate: () => calls.push("set") },
+    })
+    const onCreate = (layer: string) => () => {
+      calls.push(layer)
+      throw new Error(`${layer} down`)
+    }
+
+    const err = await withConfig(
+      { hooks: { onCreate: onCreate("outer") } },
+      () =>
+        withConfig({ hooks: { onCreate: onCreate("inner") } }, async () => {
+          await Promise.resolve()
+          return AuditError.denied`Denied ${"id"}`(
+            { id: "1" },
+            { config: { hooks: { onCreate: onCreate("call") } } }
+          )
+        })
+    )
+    expect(reporter.created()).toEqual([err])
+    expect(calls).toEqual(["set", "outer", "inner", "call"])
+  })
+
+  it("should not let hooks change or break error creation", () => {
+    const onCreate = mock(() => {
+      throw new Error("reporter down")
+    })
+    configure({
+      hooks: { onCreate, onRecover: () => "replaced" as unknown as undefined },
+    })
+    const err = UserError.not_found`User ${"id"} not found`({ id: "1" })
+    expect(err.message).toBe("User 1 not found")
+    expect(onCreate).toHaveBeenCalledTimes(1)
+    expect(UserError.recover(err, { not_found: () => 404 })).toBe(404)
+  })
+
+  it("should hand hooks errors they cannot mutate", () => {
+    const rejected: unknown[] = []
+    configure({
+      hooks: {
+        onCreate: created => {
+          const err = created as unknown as Record<string, unknown>
+          const data = err.data as Record<string, unknown>
+          for (const mutate of [
+            () => Object.assign(err, { kind: "invalid", message: "changed" }),
+            () => Object.assign(data, { id: "hacked" }),
+            () => Object.assign(err, { extra: true }),
+          ]) {
+            try {
+              mutate()
+            } catch (error) {
+              rejected.push(error)
+            }
+          }
+        },
+      },
+    })
+    const user = { id: "1" }
+    const err = UserError.not_found`User ${"id"} not found`(user)
+    expect(err).toMatchObject({
+      kind: "not_found",
+      message: "User 1 not found",
+    })
+    expect(err.data).toEqual({ id: "1" })
+    expect("extra" in err).toBe(false)
+    expect(UserError.not_found(err)).toBe(true)
+    expect(Object.isFrozen(user)).toBe(false)
+
+    const invalid = UserError.invalid`Invalid user`
+    expect(invalid).toMatchObject({ kind: "invalid", message: "Invalid user" })
+    expect(invalid.data).toEqual({})
+    expect(rejected).toHaveLength(6)
+    expect(rejected.every(error => error instanceof TypeError)).toBe(true)
+  })
+})
+
+describe("batchingSink", () => {
+  it("should write events in batches of the configured size", async () => {
+    const batches: (readonly ErrorEvent[])[] = []
+    const sink = batchingSink(
+      {
+        write: events => {
+          batches.push(events)
+        },
+      },
+      { size: 2 }
+    )
+    configure({ hooks: sink.hooks })
+
+    UserError.invalid`One`
+    expect(sink.pending).toBe(1)
+    UserError.invalid`Two`
+    UserError.invalid`Three`
+    expect(batches.map(batch => batch.length)).toEqual([2])
+
+    await sink.flush()
+    await sink.flush()
+    expect(batches.map(batch => batch.length)).toEqual([2, 1])
+    expect(sink.pending).toBe(0)
+  })
+
+  it("should ignore failed writes started by hooks but report them on flush", async () => {
+    const write = mock(() => Promise.reject(new Error("offline")))
+    const sink = batchingSink({ write }, { size: 1 })
+    sink.hooks.onCreate(UserError.invalid`One`)
+    expect(write).toHaveBeenCalledTimes(1)
+
+    const flushing = batchingSink({ write })
+    flushing.hooks.onRecover(UserError.invalid`Two`)
+    await expect(flushing.flush()).rejects.toThrow("offline")
+  })
+
+  it("should reject invalid batch sizes", () => {
+    expect(() => batchingSink({ write: () => undefined }, { size: 0 })).toThrow(
+      "Invalid batch size 0: expected a positive integer"
+    )
+  })
+})
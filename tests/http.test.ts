@@ -0,0 +1,209 @@
+/**
+ * Unit tests for the HTTP middleware.
+ * @module tests/http
+ */
+
+import { afterEach, describe, expect, it, mock } from "bun:test"
+import {
+  type ExpressResponse,
+  expressHandler,
+  fetchHandler,
+  toResponse,
+} from "../src/http.ts"
+import { configure, errorSet, resetConfig, toError } from "../src/index.ts"
+
+type User = { id: string; name: string }
+
+const UserError = errorSet("UserError", ["not_found", "suspended"], {
+  suspended: { status: 403 },
+}).init<User>()
+const ServerError = errorSet("ServerError", ["internal"]).init<{
+  message: string
+}>()
+
+type UserErr = typeof UserError.Type
+
+const john: User = { id: "1", name: "John" }
+
+const findUser = (id: string): User | UserErr =>
+  id === "1" ? john : UserError.not_found`User ${"id"} not found`({ id })
+
+const idOf = (request: Request) =>
+  new URL(request.url).searchParams.get("id") ?? ""
+
+const fallback = (e: Error) =>
+  ServerError.internal`Internal error: ${"message"}`({ message: e.message })
+
+afterEach(() => {
+  resetConfig()
+})
+
+describe("toResponse", () => {
+  it("should use the status map, then metadata, then 500", () => {
+    const notFound = UserError.not_found`User ${"id"} not found`({ id: "2" })
+    expect(toResponse(notFound, { status: { not_found: 404 } }).status).toBe(
+      404
+    )
+    expect(toResponse(UserError.suspended`Suspended`).status).toBe(403)
+    expect(toResponse(notFound).status).toBe(500)
+  })
+
+  it("should render the body in the requested format", async () => {
+    const err = UserError.not_found`User ${"id"} not found`({ id: "2" })
+    const response = toResponse(err, { format: "json" })
+    expect(response.headers.get("content-type")).toBe("application/json")
+    expect(await response.json()).toEqual({
+      kind: "not_found",
+      message: "User 2 not found",
+      data: { id: "2" },
+    })
+  })
+
+  it("should use the configured format without colors", async () => {
+    configure({ format: "minimal", colors: true })
+    const response = toResponse(UserError.suspended`Suspended`)
+    expect(response.headers.get("content-type")).toBe(
+      "text/plain; charset=utf-8"
+    )
+    expect(await response.text()).toBe("suspended")
+  })
+})
+
+describe("fetchHandler", () => {
+  const handler = fetchHandler(
+    (request: Request) => {
+      const user = findUser(idOf(request))
+      return UserError(user) ? user : Response.json(user)
+    },
+    { status: { not_found: 404 }, format: "json" }
+  )
+
+  it("should pass responses through", async () => {
+    const response = await handler(new Request("http://localhost/?id=1"))
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual(john)
+  })
+
+  it("should render returned errors", async () => {
+    const response = await handler(new Request("http://localhost/?id=2"))
+    expect(response.status).toBe(404)
+    expect(((await response.json()) as { kind: string }).kind).toBe("not_found")
+  })
+
+  it("should support async handlers and extra arguments", async () => {
+    const withEnv = fetchHandler(
+      async (_request: Request, env: { id: string }) => {
+        await Promise.resolve()
+        const user = findUser(env.id)
+        return UserError(user) ? user : Response.json(user)
+      }
+    )
+    const response = await withEnv(new Request("http://localhost/"), {
+      id: "2",
+    })
+    expect(response.status).toBe(500)
+  })
+
+  it("should map unknown exceptions through the fallback", async () => {
+    const throwing = fetchHandler(
+      (_request: Request): Response => {
+        throw new Error("db down")
+      },
+      { fallback, format: "minimal" }
+    )
+    const response = await throwing(new Request("http://localhost/"))
+    expect(response.status).toBe(500)
+    expect(await response.text()).toBe("internal:db down")
+  })
+
+  it("should render thrown ErrorSetExceptions as their error", async () => {
+    const throwing = fetchHandler((_request: Request): Response => {
+      throw toError(UserError.suspended`Suspended`)
+    })
+    const response = await throwing(new Request("http://localhost/"))
+    expect(response.status).toBe(403)
+  })
+
+  it("should rethrow unknown exceptions without a fallback", async () => {
+    const throwing = fetchHandler((_request: Request): Response => {
+      throw new Error("db down")
+    })
+    await expect(throwing(new Request("http://localhost/"))).rejects.toThrow(
+      "db down"
+    )
+  })
+})
+
+describe("expressHandler", () => {
+  const createResponse = (headersSent = false) => {
+    const res = {
+      headersSent,
+      status: mock((_code: number) => res),
+      setHeader: mock((_name: string, _value: string) => res),
+      send: mock((_body: string) => res),
+      json: mock((_body: unknown) => res),
+    }
+    return res satisfies ExpressResponse
+  }
+
+  const handler = expressHandler(
+    (req: { params: { id: string } }) => findUser(req.params.id),
+    { status: { not_found: 404 }, format: "json" }
+  )
+
+  it("should send success values as JSON", async () => {
+    const res = createResponse()
+    await handler({ params: { id: "1" } }, res, mock())
+    expect(res.json).toHaveBeenCalledWith(john)
+    expect(res.status).not.toHaveBeenCalled()
+  })
+
+  it("should send errors with status and rendered body", async () => {
+    const res = createResponse()
+    await handler({ params: { id: "2" } }, res, mock())
+    expect(res.status).toHaveBeenCalledWith(404)
+    expect(res.setHeader).toHaveBeenCalledWith(
+      "content-type",
+      "application/json"
+    )
+    expect(JSON.parse(res.send.mock.calls[0]?.[0] ?? "")).toMatchObject({
+      kind: "not_found",
+    })
+  })
+
+  it("should not respond twice or send undefined", async () => {
+    const sent = createResponse(true)
+    await handler({ params: { id: "2" } }, sent, mock())
+    expect(sent.send).not.toHaveBeenCalled()
+
+    const res = createResponse()
+    await expressHandler(() => undefined)({}, res, mock())
+    expect(res.json).not.toHaveBeenCalled()
+    expect(res.send).not.toHaveBeenCalled()
+  })
+
+  it("should map unknown exceptions through the fallback", async () => {
+    const res = createResponse()
+    const throwing = expressHandler(
+      async () => {
+        await Promise.resolve()
+        throw "boom" as unknown as Error
+      },
+      { fallback, format: "minimal" }
+    )
+    await throwing({}, res, mock())
+    expect(res.status).toHaveBeenCalledWith(500)
+    expect(res.send).toHaveBeenCalledWith("internal:boom")
+  })
+
+  it("should pass unknown exceptions to next without a fallback", async () => {
+    const res = createResponse()
+    const next = mock()
+    const error = new Error("db down")
+    await expressHandler(() => {
+      throw error
+    })({}, res, next)
+    expect(next).toHaveBeenCalledWith(error)
+    expect(res.send).not.toHaveBeenCalled()
+  })
+})
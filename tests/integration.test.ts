@@ -47,8 +47,8 @@ describe("Error Chaining", () => {
       )
 
       expect(orderErr.cause).toBeDefined()
-      expect(orderErr.cause?.kind).toBe("not_found")
-      expect(orderErr.cause?.data).toEqual({ id: "U1" })
+      expect((orderErr.cause as Err).kind).toBe("not_found")
+      expect((orderErr.cause as Err).data).toEqual({ id: "U1" })
     })
 
     it("should preserve cause data integrity", () => {
@@ -61,11 +61,11 @@ describe("Error Chaining", () => {
         { cause: userErr }
       )
 
-      expect(orderErr.cause?.data).toEqual({
+      expect((orderErr.cause as Err).data).toEqual({
         id: "U1",
         email: "test@example.com",
       })
-      expect(orderErr.cause?.message).toBe(
+      expect((orderErr.cause as Err).message).toBe(
         "User U1 (test@example.com) suspended"
       )
     })
@@ -90,8 +90,8 @@ describe("Error Chaining", () => {
 
       // Verify chain
       expect(paymentErr.kind).toBe("failed")
-      expect(paymentErr.cause?.kind).toBe("not_found")
-      expect(paymentErr.cause?.cause?.kind).toBe("not_found")
+      expect((paymentErr.cause as Err).kind).toBe("not_found")
+      expect(((paymentErr.cause as Err).cause as Err).kind).toBe("not_found")
     })
 
     it("should allow traversing the full chain", () => {
@@ -110,7 +110,7 @@ describe("Error Chaining", () => {
       let current: Err | undefined = paymentErr
       while (current) {
         chain.push(current)
-        current = current.cause
+        current = isErr(current.cause) ? current.cause : undefined
       }
 
       expect(chain).toHaveLength(3)
@@ -152,7 +152,7 @@ describe("Error Chaining", () => {
       // Each error in chain is from different set
       expect(PaymentError(paymentErr)).toBe(true)
       expect(OrderError(paymentErr.cause)).toBe(true)
-      expect(UserError(paymentErr.cause?.cause)).toBe(true)
+      expect(UserError((paymentErr.cause as Err).cause)).toBe(true)
     })
   })
 })
@@ -252,7 +252,7 @@ describe("Real-World Workflows", () => {
 
       expect(UserServiceError(result)).toBe(true)
       expect((result as Err).kind).toBe("user_not_found")
-      expect((result as Err).cause?.kind).toBe("not_found")
+      expect(((result as Err).cause as Err).kind).toBe("not_found")
     })
 
     it("should transform connection errors to validation errors", () => {
@@ -260,7 +260,7 @@ describe("Real-World Workflows", () => {
 
       expect(UserServiceError(result)).toBe(true)
       expect((result as Err).kind).toBe("validation_failed")
-      expect((result as Err).cause?.kind).toBe("connection_failed")
+      expect(((result as Err).cause as Err).kind).toBe("connection_failed")
     })
 
     it("should return success value when no error", () => {
@@ -415,7 +415,9 @@ describe("Real-World Workflows", () => {
 describe("Symbols and Coercion Edge Cases", () => {
   type Entity = { id: string; value: number }
 
-  const TestError = errorSet("TestError", ["error_a", "error_b"]).init<Entity>()
+  const TestError = errorSet("TestError", ["error_a", "error_b"]).init<Entity>({
+    colors: false,
+  })
 
   describe("nodejs.util.inspect.custom symbol", () => {
     it("should have inspect symbol on errors", () => {
@@ -433,7 +435,9 @@ describe("Symbols and Coercion Edge Cases", () => {
       const inspectFn = (err as unknown as Record<symbol, () => string>)[
         inspectSymbol
       ]
-      expect(inspectFn?.()).toBe('TestError.error_a {"id":"123","value":42}')
+      expect(inspectFn?.()).toBe(
+        'TestError.error_a - Error 123 with value 42 {"id":"123","value":42}'
+      )
     })
 
     it("should handle empty data in inspect", () => {
@@ -443,7 +447,7 @@ describe("Symbols and Coercion Edge Cases", () => {
       const inspectFn = (err as unknown as Record<symbol, () => string>)[
         inspectSymbol
       ]
-      expect(inspectFn?.()).toBe("TestError.error_a {}")
+      expect(inspectFn?.()).toBe("TestError.error_a - Simple error")
     })
   })
 
@@ -660,4 +664,69 @@ describe("Tag Collisions in Merged Sets", () => {
       expect(SetB.unique_b(errUniqueB)).toBe(true)
     })
   })
+
+  describe("strict guards distinguish colliding tags by set", () => {
+    it("should record the owning set on every error", () => {
+      const errA = SetA.not_found`A ${"idA"}`({ idA: "1" })
+      const callable = SetB.not_found`B`
+
+      expect(errA.set).toBe("SetA")
+      expect(callable.set).toBe("SetB")
+      expect(callable().set).toBe("SetB")
+    })
+
+    it("should not allow the set to be reassigned", () => {
+      const errA = SetA.not_found`A ${"idA"}`({ idA: "1" })
+      expect(() => {
+        ;(errA as { set: string }).set = "SetB"
+      }).toThrow()
+      expect(errA.set).toBe("SetA")
+    })
+
+    it("should check set identity with kind-level strict guards", () => {
+      const errA = SetA.not_found`A ${"idA"}`({ idA: "1" })
+      const errB = SetB.not_found`B ${"idB"}`({ idB: "2" })
+
+      expect(SetA.not_found.strict(errA)).toBe(true)
+      expect(SetA.not_found.strict(errB)).toBe(false)
+      expect(SetB.not_found.strict(errA)).toBe(false)
+      expect(SetB.not_found.strict(errB)).toBe(true)
+      expect(SetA.invalid.strict(errA)).toBe(false)
+      expect(SetA.not_found.strict({ kind: "not_found", set: "SetA" })).toBe(
+        false
+      )
+    })
+
+    it("should check set identity with set-level strict guards", () => {
+      const errA = SetA.not_found`A ${"idA"}`({ idA: "1" })
+      const errB = SetB.not_found`B ${"idB"}`({ idB: "2" })
+
+      expect(SetA.strict(errA)).toBe(true)
+      expect(SetA.strict(errB)).toBe(false)
+      expect(SetB.strict(errA)).toBe(false)
+      expect(SetB.strict(errB)).toBe(true)
+      expect(SetA.strict(null)).toBe(false)
+    })
+
+    it("should accept exactly the member sets in merged guards", () => {
+      const SetC = errorSet("SetC", ["not_found"]).init<EntityA>()
+      const errA = SetA.not_found`A ${"idA"}`({ idA: "1" })
+      const errB = SetB.not_found`B ${"idB"}`({ idB: "2" })
+      const errC = SetC.not_found`C ${"idA"}`({ idA: "3" })
+
+      expect(MergedSet(errA)).toBe(true)
+      expect(MergedSet(errB)).toBe(true)
+      expect(MergedSet(errC)).toBe(false)
+      expect(errC instanceof MergedSet).toBe(false)
+      expect(MergedSet.strict(errC)).toBe(false)
+      expect(MergedSet.strict(errA)).toBe(true)
+    })
+
+    it("should compose merged guards", () => {
+      const SetC = errorSet("SetC", ["not_found"]).init<EntityA>()
+      const errC = SetC.not_found`C ${"idA"}`({ idA: "3" })
+
+      expect(SetC.merge(MergedSet)(errC)).toBe(true)
+    })
+  })
 })
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for per-kind metadata.
+ * @module tests/meta
+ */
+
+import { describe, expect, it } from "bun:test"
+import { errorSet, type KindMeta, metaOf, serialize } from "../src/index.ts"
+
+type User = { id: string; name: string }
+
+const UserError = errorSet(
+  "UserError",
+  ["not_found", "rate_limited", "other"],
+  {
+    not_found: { status: 404, severity: "info", code: "USER_NOT_FOUND" },
+    rate_limited: { status: 429, retryable: true },
+  }
+).init<User>()
+
+describe("errorSet Metadata", () => {
+  it("should expose metadata on the set and on kind functions", () => {
+    expect(UserError.meta.not_found).toEqual({
+      status: 404,
+      severity: "info",
+      code: "USER_NOT_FOUND",
+    })
+    expect(UserError.rate_limited.meta).toBe(UserError.meta.rate_limited)
+  })
+
+  it("should use empty metadata for kinds without any", () => {
+    expect(UserError.meta.other).toEqual({})
+    expect(UserError.other.meta).toEqual({})
+  })
+
+  it("should freeze metadata and copy it from the input", () => {
+    const input: KindMeta = { status: 400 }
+    const InputError = errorSet("InputError", ["bad"], { bad: input }).init()
+    input.status = 500
+    expect(InputError.meta.bad.status).toBe(400)
+    expect(Object.isFrozen(InputError.meta)).toBe(true)
+    expect(Object.isFrozen(InputError.meta.bad)).toBe(true)
+  })
+
+  it("should throw for metadata on unknown kinds", () => {
+    expect(() =>
+      errorSet("Bad", ["a"], { b: { status: 400 } } as never)
+    ).toThrow('Unknown kind "b" in metadata for error set "Bad"')
+  })
+
+  it("should not add metadata keys to the set's kinds", () => {
+    expect([...UserError]).toEqual(["not_found", "rate_limited", "other"])
+  })
+})
+
+describe("metaOf", () => {
+  it("should read metadata from errors with template holes", () => {
+    const err = UserError.not_found`User ${"id"} not found`({ id: "1" })
+    expect(metaOf(err).status).toBe(404)
+  })
+
+  it("should read metadata from callable errors and their calls", () => {
+    const err = UserError.rate_limited`Too many requests`
+    expect(metaOf(err).retryable).toBe(true)
+    expect(metaOf(err({ cause: new Error("x") })).retryable).toBe(true)
+  })
+
+  it("should return empty metadata for kinds without any", () => {
+    expect(metaOf(UserError.other`Other`)).toEqual({})
+  })
+
+  it("should read metadata from deserialized errors", () => {
+    const err = UserError.not_found`User ${"id"} not found`({ id: "1" })
+    const restored = UserError.deserialize(serialize(err))
+    expect(metaOf(restored).code).toBe("USER_NOT_FOUND")
+  })
+
+  it("should keep metadata out of JSON and enumeration", () => {
+    const err = UserError.not_found`User ${"id"} not found`({ id: "1" })
+    expect(JSON.stringify(err)).not.toContain("404")
+    expect(Object.keys(err)).not.toContain("meta")
+  })
+})
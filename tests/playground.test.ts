@@ -1,5 +1,5 @@
 import { describe, expect, it } from "bun:test"
-import { errorSet, isErr } from "../src/types"
+import { type Err, errorSet, isErr } from "../src/types"
 
 describe("Callable Error - New Simplified Syntax", () => {
   type BackupContext = {
@@ -12,7 +12,7 @@ describe("Callable Error - New Simplified Syntax", () => {
     "config_invalid",
     "upload_failed",
     "download_failed",
-  ]).init<BackupContext>()
+  ]).init<BackupContext>({ colors: false })
 
   it("should allow direct use of template literal without calling", () => {
     // New simplified syntax - no ({}) needed
@@ -32,7 +32,7 @@ describe("Callable Error - New Simplified Syntax", () => {
 
     expect(err.kind).toBe("config_invalid")
     expect(err.message).toBe("S3 configuration is required")
-    expect(err.cause?.kind).toBe("download_failed")
+    expect((err.cause as Err).kind).toBe("download_failed")
     expect(isErr(err)).toBe(true)
 
     // Verify the error created via call has its own inspect function
@@ -40,7 +40,10 @@ describe("Callable Error - New Simplified Syntax", () => {
     const inspectFn = (err as unknown as Record<symbol, () => string>)[
       inspectSymbol
     ]
-    expect(inspectFn?.()).toBe("BackupError.config_invalid {}")
+    expect(inspectFn?.()).toBe(
+      "BackupError.config_invalid - S3 configuration is required\n" +
+        "  caused by: BackupError.download_failed - Download failed"
+    )
   })
 
   it("should still work with template holes and entity data", () => {
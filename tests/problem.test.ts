@@ -0,0 +1,137 @@
+/**
+ * Unit tests for RFC 9457 problem details conversion.
+ * @module tests/problem
+ */
+
+import { describe, expect, it } from "bun:test"
+import {
+  type Err,
+  errorSet,
+  metaOf,
+  PROBLEM_CONTENT_TYPE,
+  toProblemDetails,
+} from "../src/index.ts"
+
+type User = { id: string; name: string; password: string }
+
+const UserError = errorSet("UserError", ["not_found", "suspended", "invalid"], {
+  not_found: { status: 404 },
+  suspended: { status: 403, description: "User suspended" },
+}).init<User>()
+
+const notFound = UserError.not_found`User ${"id"} not found`({ id: "123" })
+
+describe("toProblemDetails", () => {
+  it("should map set, kind, message and metadata status", () => {
+    expect(toProblemDetails(notFound)).toEqual({
+      type: "urn:errorset:UserError/not_found",
+      title: "UserError.not_found",
+      status: 404,
+      detail: "User 123 not found",
+    })
+  })
+
+  it("should use the kind's description as the title", () => {
+    const err = UserError.suspended`Account locked`
+    expect(toProblemDetails(err).title).toBe("User suspended")
+  })
+
+  it("should default the status to 500", () => {
+    expect(toProblemDetails(UserError.invalid`Invalid`).status).toBe(500)
+  })
+
+  it("should resolve the status with the given resolver", () => {
+    const status = (err: Err) => (err.kind === "invalid" ? 422 : undefined)
+    expect(
+      toProblemDetails(UserError.invalid`Invalid`, { status }).status
+    ).toBe(422)
+    expect(toProblemDetails(notFound, { status }).status).toBe(404)
+  })
+
+  it("should copy only the selected data fields", () => {
+    const err = UserError.invalid`User ${"name"} has password ${"password"}`({
+      name: "John",
+      password: "secret",
+    })
+    const problem = toProblemDetails(err, { fields: ["name", "id"] })
+    expect(problem.name).toBe("John")
+    expect("id" in problem).toBe(false)
+    expect("password" in problem).toBe(false)
+  })
+
+  it("should apply the type base and instance", () => {
+    const problem = toProblemDetails(notFound, {
+      typeBase: "https://errors.example.com/",
+      instance: "/users/123",
+    })
+    expect(problem.type).toBe("https://errors.example.com/UserError/not_found")
+    expect(problem.instance).toBe("/users/123")
+  })
+
+  it("should throw for standard members in fields", () => {
+    expect(() => toProblemDetails(notFound, { fields: ["status"] })).toThrow(
+      'Cannot use standard member "status" as a problem details extension'
+    )
+  })
+
+  it("should throw for values that are not errors", () => {
+    expect(() => toProblemDetails({ kind: "x" } as unknown as Err)).toThrow(
+      "Cannot convert a value that is not an error set value"
+    )
+  })
+})
+
+describe("fromProblemDetails", () => {
+  it("should round-trip through a Response", async () => {
+    const problem = toProblemDetails(notFound, { fields: ["id"] })
+    const response = new Response(JSON.stringify(problem), {
+      status: problem.status,
+      headers: { "content-type": PROBLEM_CONTENT_TYPE },
+    })
+
+    const restored = UserError.fromProblemDetails(await response.json())
+    expect(UserError.not_found.strict(restored)).toBe(true)
+    expect(restored?.message).toBe("User 123 not found")
+    expect(restored?.data).toEqual({ id: "123" })
+    expect(metaOf(restored as Err).status).toBe(404)
+  })
+
+  it("should accept JSON strings and a custom type base", () => {
+    const typeBase = "https://errors.example.com/"
+    const body = JSON.stringify(toProblemDetails(notFound, { typeBase }))
+    expect(UserError.fromProblemDetails(body, { typeBase })?.kind).toBe(
+      "not_found"
+    )
+    expect(UserError.fromProblemDetails(body)).toBeUndefined()
+  })
+
+  it("should fall back to the title, then the kind, for the message", () => {
+    const type = "urn:errorset:UserError/invalid"
+    expect(
+      UserError.fromProblemDetails({ type, title: "Bad input" })?.message
+    ).toBe("Bad input")
+    expect(UserError.fromProblemDetails({ type })?.message).toBe("invalid")
+  })
+
+  it("should return undefined for other sets and unknown kinds", () => {
+    expect(
+      UserError.fromProblemDetails({ type: "urn:errorset:OrderError/empty" })
+    ).toBeUndefined()
+    expect(
+      UserError.fromProblemDetails({ type: "urn:errorset:UserError/deleted" })
+    ).toBeUndefined()
+    expect(
+      UserError.fromProblemDetails({ type: "about:blank", status: 404 })
+    ).toBeUndefined()
+  })
+
+  it("should throw for malformed bodies", () => {
+    expect(() => UserError.fromProblemDetails({ title: "No type" })).toThrow(
+      "Invalid problem details: expected an object with a type"
+    )
+    expect(() => UserError.fromProblemDetails(null)).toThrow(
+      "Invalid problem details"
+    )
+    expect(() => UserError.fromProblemDetails("{")).toThrow()
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Unit tests for data redaction.
+ * @module tests/redact
+ */
+
+import { afterEach, describe, expect, it } from "bun:test"
+import { inspect } from "node:util"
+import {
+  configure,
+  defineAdapter,
+  errorSet,
+  format,
+  memorySink,
+  REDACTED,
+  resetConfig,
+  serialize,
+  unsafeData,
+} from "../src/index.ts"
+
+type User = {
+  id: string
+  email: string
+  auth: { token: string; scope: string }
+  tags: { secret: string }[]
+}
+
+const HASH_PATTERN = /^\[hash:[0-9a-f]{8}\]$/
+
+afterEach(() => {
+  resetConfig()
+})
+
+describe("redaction rules", () => {
+  it("should mask fields by name in data and messages", () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>({
+      redact: ["email"],
+    })
+    const err = UserError.not_found`No user ${"email"} (${"id"})`({
+      email: "a@b.co",
+      id: "1",
+    })
+    expect(err.data).toEqual({ email: REDACTED, id: "1" })
+    expect(err.message).toBe("No user [REDACTED] (1)")
+  })
+
+  it("should match field names at any depth and dotted paths exactly", () => {
+    const UserError = errorSet("UserError", ["denied"]).init<User>({
+      redact: ["secret", "auth.token"],
+    })
+    const err = UserError.denied`Denied ${"auth"} ${"tags"}`({
+      auth: { token: "t0k3n", scope: "read" },
+      tags: [{ secret: "s" }],
+    })
+    expect(err.data).toEqual({
+      auth: { token: REDACTED, scope: "read" },
+      tags: [{ secret: REDACTED }],
+    })
+  })
+
+  it("should redact fields matched by predicates", () => {
+    const UserError = errorSet("UserError", ["denied"]).init<User>({
+      redact: [(path, value) => path === "id" && value === "admin"],
+    })
+    expect(UserError.denied`Denied ${"id"}`({ id: "admin" }).data.id).toBe(
+      REDACTED
+    )
+    expect(UserError.denied`Denied ${"id"}`({ id: "1" }).data.id).toBe("1")
+  })
+
+  it("should hash values with the hash style", () => {
+    const UserError = errorSet("UserError", ["not_found"]).init<User>({
+      redact: ["email"],
+      redactStyle: "hash",
+    })
+    const create = (email: string) =>
+      UserError.not_found`No user ${"email"}`({ email }).data.email
+    expect(create("a@b.co")).toMatch(HASH_PATTERN)
+    expect(create("a@b.co")).toBe(create("a@b.co"))
+    expect(create("a@b.co")).not.toBe(create("c@d.co"))
+  })
+
+  it("should combine global and per-set rules", () => {
+    configure({ redact: ["email"] })
+    const UserError = errorSet("UserError", ["not_found"]).init<User>({
+      redact: ["id"],
+    })
+    const err = UserError.not_found`${"id"} ${"email"}`({
+      id: "1",
+      email: "a@b.co",
+    })
+    expect(err.data).toEqual({ id: REDACTED, email: REDACTED })
+  })
+
+  it("should leave class instances and unmatched data untouched", () => {
+    configure({ redact: ["time"] })
+    const TimeError = errorSet("TimeError", ["late"]).init<{ at: Date }>()
+    const at = new Date(0)
+    const err = TimeError.late`Late at ${"at"}`({ at })
+    expect(err.data.at).toBe(at)
+    expect(unsafeData(err)).toBe(err.data)
+  })
+})
+
+describe("redacted output", () => {
+  const UserError = errorSet("UserError", ["not_found"]).init<User>({
+    redact: ["email"],
+  })
+  const err = UserError.not_found`No user ${"email"}`({ email: "a@b.co" })
+
+  it("should keep raw values out of inspect, JSON, format and serialize", () => {
+    expect(inspect(err)).not.toContain("a@b.co")
+    expect(JSON.stringify(err)).not.toContain("a@b.co")
+    expect(format(err, { format: "pretty" })).not.toContain("a@b.co")
+    expect(JSON.stringify(serialize(err))).not.toContain("a@b.co")
+  })
+
+  it("should keep raw values out of spreads and hooks", () => {
+    const sink = memorySink()
+    configure({ hooks: sink.hooks, redact: ["email"] })
+    const created = UserError.not_found`No user ${"email"}`({ email: "a@b.co" })
+    expect({ ...created }.data).toEqual({ email: REDACTED })
+    expect(sink.created()[0]?.data).toEqual({ email: REDACTED })
+  })
+
+  it("should expose raw values through unsafeData", () => {
+    expect(unsafeData(err)).toEqual({ email: "a@b.co" })
+    expect(Object.keys(err)).not.toContain("rawData")
+  })
+
+  it("should only keep redacted data after deserializing", () => {
+    const restored = UserError.deserialize(serialize(err))
+    expect(unsafeData(restored)).toEqual({ email: REDACTED })
+  })
+})
+
+describe("redaction in other creation paths", () => {
+  it("should redact per-kind data passed to callable errors", () => {
+    const AuthError = errorSet("AuthError", ["expired"]).initPerKind<{
+      expired: { token: string }
+    }>({ redact: ["token"] })
+    const err = AuthError.expired`Session expired`({ token: "t0k3n" })
+    expect(err.data).toEqual({ token: REDACTED })
+    expect(unsafeData(err)).toEqual({ token: "t0k3n" })
+  })
+
+  it("should redact data extracted by adapters", () => {
+    const HttpError = errorSet("HttpError", ["failed"]).init<{
+      url: string
+    }>({ redact: ["url"] })
+    const http = defineAdapter({
+      errorSet: HttpError,
+      classify: () => "failed",
+      extract: (_error, args) => ({ url: String(args[0]) }),
+    })
+    const fetchUrl = http.wrap((_url: string): never => {
+      throw new Error("offline")
+    })
+    const err = fetchUrl("https://x.co/?key=1")
+    expect(err.data).toEqual({ url: REDACTED })
+    expect(unsafeData(err)).toEqual({ url: "https://x.co/?key=1" })
+  })
+})
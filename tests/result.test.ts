@@ -0,0 +1,194 @@
+/**
+ * Unit tests for result combinators.
+ * @module tests/result
+ */
+
+import { describe, expect, it, mock } from "bun:test"
+import {
+  andThen,
+  andThenAsync,
+  errorSet,
+  map,
+  mapAsync,
+  mapErr,
+  mapErrAsync,
+  orElse,
+  orElseAsync,
+  pipe,
+  pipeAsync,
+  tap,
+  tapAsync,
+  tapErr,
+  tapErrAsync,
+  unwrapOr,
+  unwrapOrAsync,
+} from "../src/index.ts"
+
+type User = { id: string; name: string }
+type Order = { id: string; total: number }
+
+const UserError = errorSet("UserError", ["not_found"]).init<User>()
+const OrderError = errorSet("OrderError", ["empty"]).init<Order>()
+
+type UserErr = typeof UserError.Type
+type OrderErr = typeof OrderError.Type
+
+const john: User = { id: "1", name: "John" }
+const missing = UserError.not_found`User ${"id"} not found`({ id: "2" })
+
+const getUser = (id: string): User | UserErr => (id === "1" ? john : missing)
+const getOrder = (user: User): Order | OrderErr =>
+  user.id === "1"
+    ? { id: "o1", total: 10 }
+    : OrderError.empty`Order ${"id"} is empty`({ id: "o2" })
+
+describe("map / mapErr", () => {
+  it("should transform success values", () => {
+    expect(map(getUser("1"), user => user.name)).toBe("John")
+  })
+
+  it("should pass errors through map unchanged", () => {
+    expect(map(getUser("2"), user => user.name)).toBe(missing)
+  })
+
+  it("should transform errors with mapErr", () => {
+    const result = mapErr(getUser("2"), e => `failed: ${e.kind}`)
+    expect(result).toBe("failed: not_found")
+  })
+
+  it("should pass success values through mapErr unchanged", () => {
+    expect(mapErr(getUser("1"), () => "failed")).toBe(john)
+  })
+})
+
+describe("andThen / orElse", () => {
+  it("should chain steps that may fail", () => {
+    expect(andThen(getUser("1"), getOrder)).toEqual({ id: "o1", total: 10 })
+  })
+
+  it("should short-circuit on the input error", () => {
+    const step = mock(getOrder)
+    expect(andThen(getUser("2"), step)).toBe(missing)
+    expect(step).not.toHaveBeenCalled()
+  })
+
+  it("should recover errors with orElse", () => {
+    expect(orElse(getUser("2"), () => getUser("1"))).toBe(john)
+  })
+
+  it("should skip orElse for success values", () => {
+    const fallback = mock(() => john)
+    expect(orElse(getUser("1"), fallback)).toBe(john)
+    expect(fallback).not.toHaveBeenCalled()
+  })
+})
+
+describe("unwrapOr", () => {
+  it("should return the success value", () => {
+    expect(unwrapOr(getUser("1"), null)).toBe(john)
+  })
+
+  it("should return the fallback for errors", () => {
+    expect(unwrapOr(getUser("2"), null)).toBeNull()
+  })
+})
+
+describe("tap / tapErr", () => {
+  it("should run tap only for success values", () => {
+    const effect = mock(() => undefined)
+    expect(tap(getUser("1"), effect)).toBe(john)
+    expect(tap(getUser("2"), effect)).toBe(missing)
+    expect(effect).toHaveBeenCalledTimes(1)
+    expect(effect).toHaveBeenCalledWith(john)
+  })
+
+  it("should run tapErr only for errors", () => {
+    const effect = mock(() => undefined)
+    expect(tapErr(getUser("1"), effect)).toBe(john)
+    expect(tapErr(getUser("2"), effect)).toBe(missing)
+    expect(effect).toHaveBeenCalledTimes(1)
+    expect(effect).toHaveBeenCalledWith(missing)
+  })
+})
+
+describe("pipe", () => {
+  it("should return the value when no steps are given", () => {
+    expect(pipe(john)).toBe(john)
+  })
+
+  it("should thread success values through every step", () => {
+    const result = pipe(getUser("1"), getOrder, order => order.total * 2)
+    expect(result).toBe(20)
+  })
+
+  it("should short-circuit on the first error", () => {
+    const last = mock((order: Order) => order.total)
+    const result = pipe({ id: "3", name: "Jane" }, getOrder, last)
+    expect(OrderError.empty(result)).toBe(true)
+    expect(last).not.toHaveBeenCalled()
+  })
+
+  it("should short-circuit on an initial error", () => {
+    const step = mock(getOrder)
+    expect(pipe(getUser("2"), step)).toBe(missing)
+    expect(step).not.toHaveBeenCalled()
+  })
+})
+
+describe("async combinators", () => {
+  const fetchUser = (id: string) => Promise.resolve(getUser(id))
+
+  it("should map and chain promised values", async () => {
+    expect(await mapAsync(fetchUser("1"), async user => user.name)).toBe("John")
+    expect(await andThenAsync(fetchUser("1"), getOrder)).toEqual({
+      id: "o1",
+      total: 10,
+    })
+    expect(await andThenAsync(fetchUser("2"), getOrder)).toBe(missing)
+  })
+
+  it("should map and recover promised errors", async () => {
+    expect(await mapErrAsync(fetchUser("2"), async e => e.kind)).toBe(
+      "not_found"
+    )
+    expect(await orElseAsync(fetchUser("2"), () => fetchUser("1"))).toBe(john)
+    expect(await unwrapOrAsync(fetchUser("2"), null)).toBeNull()
+  })
+
+  it("should await side effects and resolve the original value", async () => {
+    const seen: string[] = []
+    const result = await tapAsync(fetchUser("1"), async user => {
+      await Promise.resolve()
+      seen.push(user.name)
+    })
+    const failed = await tapErrAsync(fetchUser("2"), async e => {
+      await Promise.resolve()
+      seen.push(e.kind)
+    })
+    expect(result).toBe(john)
+    expect(failed).toBe(missing)
+    expect(seen).toEqual(["John", "not_found"])
+  })
+
+  it("should skip async side effects for the other branch", async () => {
+    const effect = mock(async () => undefined)
+    await tapAsync(fetchUser("2"), effect)
+    await tapErrAsync(fetchUser("1"), effect)
+    expect(effect).not.toHaveBeenCalled()
+  })
+
+  it("should pipe through async steps", async () => {
+    const result = await pipeAsync(
+      fetchUser("1"),
+      user => Promise.resolve(getOrder(user)),
+      order => order.total
+    )
+    expect(result).toBe(10)
+  })
+
+  it("should short-circuit async pipes on the first error", async () => {
+    const step = mock(async (user: User) => getOrder(user))
+    expect(await pipeAsync(fetchUser("2"), step)).toBe(missing)
+    expect(step).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,255 @@
+/**
+ * Unit tests for serialization and rehydration.
+ * @module tests/serialize
+ */
+
+import { afterEach, describe, expect, it } from "bun:test"
+import {
+  configure,
+  type Err,
+  errorSet,
+  hasCause,
+  isErr,
+  resetConfig,
+  serialize,
+} from "../src/index.ts"
+
+type User = { id: string; name: string }
+type Db = { query: string }
+
+const UserError = errorSet("UserError", ["not_found", "suspended"]).init<User>()
+const DbError = errorSet("DbError", ["timeout"]).init<Db>()
+
+const invalidPayloadRegex = /Invalid serialized error/
+const unknownKindRegex = /unknown kind "deleted" in error set "UserError"/
+const wrongSetRegex = /from set "DbError" as "UserError"/
+
+describe("serialize", () => {
+  afterEach(() => {
+    resetConfig()
+  })
+
+  it("should produce the wire format with set name", () => {
+    const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+    expect(serialize(err)).toEqual({
+      set: "UserError",
+      kind: "not_found",
+      message: "User 123 not found",
+      data: { id: "123" },
+    })
+  })
+
+  it("should serialize callable errors", () => {
+    expect(serialize(UserError.suspended`Account suspended`)).toEqual({
+      set: "UserError",
+      kind: "suspended",
+      message: "Account suspended",
+      data: {},
+    })
+  })
+
+  it("should serialize the cause chain recursively", () => {
+    const dbErr = DbError.timeout`Query ${"query"} timed out`({ query: "q" })
+    const err = UserError.not_found`User ${"id"} not found`(
+      { id: "123" },
+      { cause: dbErr }
+    )
+    expect(serialize(err).cause).toEqual({
+      set: "DbError",
+      kind: "timeout",
+      message: "Query q timed out",
+      data: { query: "q" },
+    })
+  })
+
+  it("should serialize native error causes with their stack", () => {
+    const cause = new TypeError("fetch failed")
+    const err = UserError.suspended`Lookup failed`({ cause })
+    expect(serialize(err).cause).toEqual({
+      name: "TypeError",
+      message: "fetch failed",
+      stack: cause.stack,
+    })
+  })
+
+  it("should continue the chain through native errors' own causes", () => {
+    const timeout = DbError.timeout`Timed out: ${"query"}`({ query: "q" })
+    const native = new Error("request failed", { cause: timeout })
+    const err = UserError.suspended`Lookup failed`({ cause: native })
+    expect(serialize(err).cause).toEqual({
+      name: "Error",
+      message: "request failed",
+      stack: native.stack,
+      cause: serialize(timeout),
+    })
+  })
+
+  it("should stop native cause chains at a cycle", () => {
+    const native = new Error("loop")
+    const err = UserError.suspended`Lookup failed`({ cause: native })
+    native.cause = err
+    expect(serialize(err).cause).toEqual({
+      name: "Error",
+      message: "loop",
+      stack: native.stack,
+    })
+  })
+
+  it("should serialize non-Error causes as strings", () => {
+    const err = UserError.suspended`Lookup failed`({ cause: 42 })
+    expect(serialize(err).cause).toEqual({ name: "Error", message: "42" })
+  })
+
+  it("should include timestamp and stack when present", () => {
+    configure({ includeTimestamp: true, includeStack: true, clock: () => 42 })
+    const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+    const payload = serialize(err)
+    expect(payload.timestamp).toBe(42)
+    expect(typeof payload.stack).toBe("string")
+  })
+
+  it("should throw for values that are not errors", () => {
+    expect(() => serialize({ kind: "not_found" } as unknown as Err)).toThrow(
+      "Cannot serialize a value that is not an error set value"
+    )
+  })
+})
+
+describe("ErrorSet.deserialize", () => {
+  it("should rebuild a branded error that passes guards", () => {
+    const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+    const restored = UserError.deserialize(serialize(err))
+
+    expect(isErr(restored)).toBe(true)
+    expect(UserError(restored)).toBe(true)
+    expect(UserError.not_found(restored)).toBe(true)
+    expect(restored instanceof UserError).toBe(true)
+    expect(restored.kind).toBe("not_found")
+    expect(restored.message).toBe("User 123 not found")
+    expect(restored.data).toEqual({ id: "123" })
+  })
+
+  it("should round-trip through JSON.stringify", () => {
+    const err = UserError.not_found`User ${"id"} not found`({ id: "123" })
+    const restored = UserError.deserialize(JSON.stringify(serialize(err)))
+    expect(UserError.not_found(restored)).toBe(true)
+    expect(serialize(restored)).toEqual(serialize(err))
+  })
+
+  it("should round-trip through structuredClone", () => {
+    const dbErr = DbError.timeout`Timed out`
+    const err = UserError.suspended`Account ${"id"} suspended`(
+      { id: "1" },
+      { cause: dbErr }
+    )
+    const restored = UserError.deserialize(structuredClone(serialize(err)))
+    expect(UserError.suspended(restored)).toBe(true)
+    expect(DbError.timeout(restored.cause)).toBe(true)
+    expect(serialize(restored)).toEqual(serialize(err))
+  })
+
+  it("should restore foreign causes as native errors", () => {
+    const cause = new TypeError("fetch failed")
+    const err = UserError.suspended`Lookup failed`({ cause })
+    const restored = UserError.deserialize(JSON.stringify(serialize(err)))
+
+    expect(restored.cause).toBeInstanceOf(Error)
+    expect((restored.cause as Error).name).toBe("TypeError")
+    expect((restored.cause as Error).message).toBe("fetch failed")
+    expect((restored.cause as Error).stack).toBe(cause.stack as string)
+    expect(serialize(restored)).toEqual(serialize(err))
+  })
+
+  it("should restore error set causes behind native errors", () => {
+    const timeout = DbError.timeout`Timed out: ${"query"}`({ query: "q" })
+    const wrapped = new Error("wrapped", {
+      cause: new Error("request failed", { cause: timeout }),
+    })
+    const err = UserError.suspended`Lookup failed`({ cause: wrapped })
+    const restored = UserError.deserialize(
+      JSON.parse(JSON.stringify(serialize(err)))
+    )
+    expect(hasCause(restored, DbError.timeout)).toBe(true)
+    expect(serialize(restored)).toEqual(serialize(err))
+  })
+
+  it("should restore foreign causes without a stack", () => {
+    const restored = UserError.deserialize({
+      set: "UserError",
+      kind: "suspended",
+      message: "Lookup failed",
+      data: {},
+      cause: { name: "Error", message: "42" },
+    })
+    expect((restored.cause as Error).stack).toBe("Error: 42")
+  })
+
+  it("should restore timestamp and stack without recapturing", () => {
+    const restored = UserError.deserialize({
+      set: "UserError",
+      kind: "not_found",
+      message: "Missing",
+      data: {},
+      timestamp: "2024-01-04T19:06:40.000Z",
+      stack: "Error\n    at getUser (src/users.ts:42)",
+    })
+    expect(restored.timestamp).toBe("2024-01-04T19:06:40.000Z")
+    expect(restored.stack).toBe("Error\n    at getUser (src/users.ts:42)")
+  })
+
+  it("should render rehydrated errors with the set's configuration", () => {
+    const MinimalError = errorSet("MinimalError", ["failed"]).init<User>({
+      format: "minimal",
+    })
+    const restored = MinimalError.deserialize({
+      set: "MinimalError",
+      kind: "failed",
+      message: "Failed",
+      data: { id: "1" },
+    })
+    expect(String(restored)).toBe("failed:1")
+    expect(JSON.parse(JSON.stringify(restored))).toEqual({
+      kind: "failed",
+      message: "Failed",
+      data: { id: "1" },
+    })
+  })
+
+  it("should reject kinds that are not in the set", () => {
+    expect(() =>
+      UserError.deserialize({
+        set: "UserError",
+        kind: "deleted",
+        message: "Deleted",
+        data: {},
+      })
+    ).toThrow(unknownKindRegex)
+  })
+
+  it("should reject errors from another set", () => {
+    const err = DbError.timeout`Timed out`
+    expect(() => UserError.deserialize(serialize(err))).toThrow(wrongSetRegex)
+  })
+
+  it("should reject malformed payloads", () => {
+    const base = { set: "UserError", kind: "not_found", message: "m" }
+    const invalid = [
+      null,
+      [],
+      "null",
+      { ...base },
+      { ...base, data: [] },
+      { ...base, data: {}, timestamp: true },
+      { ...base, data: {}, stack: 1 },
+      { ...base, data: {}, path: 1 },
+      { ...base, data: { errors: [{ ...base, data: {}, stack: 1 }] } },
+      { ...base, data: {}, cause: { kind: "x" } },
+      { ...base, data: {}, cause: { name: "Error", message: "m", stack: 1 } },
+    ]
+    for (const input of invalid) {
+      expect(() => UserError.deserialize(input as never)).toThrow(
+        invalidPayloadRegex
+      )
+    }
+  })
+})
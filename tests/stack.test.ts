@@ -0,0 +1,251 @@
+/**
+ * Unit tests for structured stack frames, filters and source maps.
+ * @module tests/stack
+ */
+
+import { afterEach, beforeAll, describe, expect, it } from "bun:test"
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { withConfig } from "../src/context.ts"
+import {
+  collect,
+  configure,
+  type ErrAggregate,
+  errorSet,
+  format,
+  parseStack,
+  resetConfig,
+  serialize,
+} from "../src/index.ts"
+
+type User = { id: string }
+
+const UserError = errorSet("UserError", ["not_found", "invalid"]).init<User>()
+
+/** Path of a module of this library, whose own functions are internal */
+const LIBRARY_FILE = new URL("../src/types.ts", import.meta.url).pathname
+
+const MAIN = /main/
+
+const STACK = [
+  "Error: User not found",
+  "    at getUser (/app/src/users.ts:42:7)",
+  `    at buildErr (${LIBRARY_FILE}:10:3)`,
+  "    at Layer.handle (/app/node_modules/express/lib/router.js:95:5)",
+  "    at /app/vendor/legacy.js:1:20",
+  "    at processTicksAndRejections (node:internal/process/task_queues:95:5)",
+  "    at async main (file:///app/src/main%20app.ts:3:9)",
+  "    at <anonymous>",
+].join("\n")
+
+afterEach(() => {
+  resetConfig()
+})
+
+describe("parseStack", () => {
+  it("should parse frames and drop internal and node_modules frames", () => {
+    expect(parseStack(STACK)).toEqual([
+      { file: "/app/src/users.ts", line: 42, column: 7, fn: "getUser" },
+      { file: "/app/vendor/legacy.js", line: 1, column: 20 },
+      { file: "/app/src/main app.ts", line: 3, column: 9, fn: "async main" },
+    ])
+  })
+
+  it("should keep every frame with the filters off", () => {
+    const frames = parseStack(STACK, {
+      stackFilter: { internal: false, nodeModules: false },
+    })
+    expect(frames.map(frame => frame.fn)).toEqual([
+      "getUser",
+      "buildErr",
+      "Layer.handle",
+      undefined,
+      "processTicksAndRejections",
+      "async main",
+    ])
+  })
+
+  it("should keep app frames bundled into a library file", () => {
+    const bundled = [
+      `    at buildErr (${LIBRARY_FILE}:10:3)`,
+      `    at async Object.getUser (${LIBRARY_FILE}:42:7)`,
+      `    at Object.capture [as run] (${LIBRARY_FILE}:50:1)`,
+      "    at buildErr (/app/src/errors.ts:1:1)",
+    ].join("\n")
+    expect(parseStack(bundled).map(frame => frame.fn)).toEqual([
+      "async Object.getUser",
+      "buildErr",
+    ])
+  })
+
+  it("should drop the frames of scopes", () => {
+    const context = new URL("../src/context.ts", import.meta.url).pathname
+    const stack = `Error\n    at withConfig (${context}:21:24)\n    at main (/app/main.ts:1:1)`
+    expect(withConfig({}, () => parseStack(stack))).toEqual([
+      { file: "/app/main.ts", line: 1, column: 1, fn: "main" },
+    ])
+  })
+
+  it("should drop frames matching custom patterns", () => {
+    const frames = parseStack(STACK, {
+      stackFilter: { exclude: ["/vendor/", MAIN] },
+    })
+    expect(frames.map(frame => frame.file)).toEqual(["/app/src/users.ts"])
+  })
+
+  it("should limit frames to stackDepth after filtering", () => {
+    expect(parseStack(STACK, { stackDepth: 1 })).toHaveLength(1)
+    configure({ stackDepth: 2 })
+    expect(parseStack(STACK)).toHaveLength(2)
+  })
+})
+
+describe("captured frames", () => {
+  const file = new URL(import.meta.url).pathname
+
+  it("should start at the caller, without library frames", () => {
+    const err = UserError.not_found`User ${"id"} not found`(
+      { id: "1" },
+      { config: { includeStack: true } }
+    )
+    expect(err.frames?.[0]?.file).toBe(file)
+    expect(err.frames?.some(frame => frame.file === LIBRARY_FILE)).toBe(false)
+    const lines = err.stack?.split("\n") ?? []
+    expect(lines).toHaveLength((err.frames?.length ?? 0) + 1)
+    expect(lines[1]).toContain(`${file}:`)
+  })
+
+  it("should capture frames for callable errors", () => {
+    configure({ includeStack: true, stackDepth: 1 })
+    const invalid = UserError.invalid`Invalid user`
+    expect(invalid.frames).toEqual([
+      expect.objectContaining({ file, line: expect.any(Number) }),
+    ])
+    expect(invalid({ cause: "boom" }).frames).toHaveLength(1)
+  })
+
+  it("should apply the configured filters", () => {
+    configure({ includeStack: true, stackFilter: { exclude: [file] } })
+    expect(UserError.invalid`Invalid user`.frames).toEqual([])
+  })
+
+  it("should not capture frames unless includeStack is enabled", () => {
+    expect("frames" in UserError.invalid`Invalid user`).toBe(false)
+  })
+
+  it("should be kept by aggregate children", () => {
+    configure({ includeStack: true })
+    const err = UserError.invalid`Invalid ${"id"}`({ id: "1" })
+    const [child] = (collect({ user: err }) as ErrAggregate).data.errors
+    expect(child?.frames).toEqual(err.frames)
+  })
+})
+
+describe("frame output", () => {
+  const frames = [
+    { file: `${process.cwd()}/src/users.ts`, line: 42, column: 7, fn: "get" },
+    { file: "/elsewhere/main.js", line: 3, column: 9 },
+  ]
+  const err = { ...UserError.invalid`Invalid user`, stack: "Error", frames }
+
+  it("should render frames relative to the working directory", () => {
+    expect(format(err, { format: "pretty", colors: false })).toBe(
+      "UserError.invalid - Invalid user\n" +
+        "  at get (src/users.ts:42:7)\n" +
+        "  at /elsewhere/main.js:3:9"
+    )
+  })
+
+  it("should emit frames as an array in JSON, in place of the stack", () => {
+    const json = JSON.parse(format(err, { format: "json" }))
+    expect(json.frames).toEqual(frames)
+    expect(json.stack).toBeUndefined()
+  })
+
+  it("should survive serialization", () => {
+    configure({ includeStack: true })
+    const captured = UserError.invalid`Invalid user`
+    const payload = JSON.parse(JSON.stringify(serialize(captured)))
+    expect(payload.frames).toEqual(captured.frames)
+    expect(UserError.deserialize(payload).frames).toEqual(captured.frames)
+    expect(() =>
+      UserError.deserialize({ ...payload, frames: [{ file: "a.ts" }] })
+    ).toThrow(
+      "Invalid serialized error: frames must be an array of stack frames"
+    )
+  })
+})
+
+describe("source maps", () => {
+  let dir = ""
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "errorset-"))
+    mkdirSync(join(dir, "out"))
+    // Line 2 maps to app.ts line 3 (columns 0 and 4 to columns 2 and 6);
+    // line 3 maps to app.ts line 4 (columns 0 and 16 to columns 5 and 6)
+    const map = {
+      version: 3,
+      sources: ["../src/app.ts"],
+      mappings: "AAAA;AAEE,IAAI;AACD,gBAAC",
+    }
+    writeFileSync(join(dir, "out/app.js.map"), JSON.stringify(map))
+    writeFileSync(
+      join(dir, "out/app.js"),
+      "a\nb\nc\n//# sourceMappingURL=app.js.map\n"
+    )
+    const inline = btoa(
+      JSON.stringify({ ...map, sourceRoot: "lib", sources: ["inline.ts"] })
+    )
+    writeFileSync(
+      join(dir, "out/inline.js"),
+      `a\n//# sourceMappingURL=data:application/json;base64,${inline}`
+    )
+    writeFileSync(join(dir, "out/broken.js"), "//# sourceMappingURL=none.map")
+    writeFileSync(
+      join(dir, "out/bad-inline.js"),
+      "//# sourceMappingURL=data:application/json;base64,%%%"
+    )
+    writeFileSync(join(dir, "out/plain.js"), "a\nb\n")
+  })
+
+  const at = (location: string) =>
+    parseStack(`Error\n    at run (${dir}/out/${location})`, {
+      sourceMaps: true,
+    })[0]
+
+  it("should map frames to their original sources", () => {
+    const source = `${dir}/src/app.ts`
+    expect(at("app.js:2:7")).toEqual({
+      file: source,
+      line: 3,
+      column: 7,
+      fn: "run",
+    })
+    expect(at("app.js:2:3")).toMatchObject({ line: 3, column: 3 })
+    expect(at("app.js:3:1")).toMatchObject({ line: 4, column: 6 })
+    expect(at("app.js:3:20")).toMatchObject({ line: 4, column: 7 })
+  })
+
+  it("should read inline source maps and their sourceRoot", () => {
+    expect(at("inline.js:1:1")).toMatchObject({
+      file: `${dir}/out/lib/inline.ts`,
+      line: 1,
+    })
+  })
+
+  it("should keep frames without a usable source map", () => {
+    for (const location of [
+      "plain.js:1:1",
+      "broken.js:1:1",
+      "bad-inline.js:1:1",
+      "app.js:9:1",
+    ]) {
+      expect(at(location)?.file).toBe(`${dir}/out/${location.split(":")[0]}`)
+    }
+    expect(
+      parseStack(`    at ${dir}/out/app.js:2:7`, { sourceMaps: false })[0]
+    ).toMatchObject({ line: 2, column: 7 })
+  })
+})
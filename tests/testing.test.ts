@@ -0,0 +1,112 @@
+/**
+ * Unit tests for the test matchers.
+ * @module tests/testing
+ */
+
+import { describe, expect, it } from "bun:test"
+import { errorSet } from "../src/index.ts"
+import "../src/testing.ts"
+
+type User = { id: string; name: string }
+
+const UserError = errorSet("UserError", ["not_found", "invalid"]).init<User>()
+const DbError = errorSet("DbError", ["timeout"]).init<{ ms: number }>()
+
+const notFound = UserError.not_found`User ${"id"} not found`({ id: "1" })
+const timeout = DbError.timeout`Timed out after ${"ms"}ms`({ ms: 50 })
+const wrapped = UserError.invalid`Invalid user ${"id"}`(
+  { id: "2" },
+  { cause: timeout }
+)
+
+/** Runs a failing assertion and returns its message */
+const failure = (assert: () => void): string => {
+  try {
+    assert()
+  } catch (error) {
+    return (error as Error).message
+  }
+  throw new Error("Expected the assertion to fail")
+}
+
+describe("matchers", () => {
+  it("should match error set values and success values", () => {
+    expect(notFound).toBeErr()
+    expect({ id: "1" }).not.toBeErr()
+    expect({ id: "1" }).toBeOk()
+    expect(notFound).not.toBeOk()
+  })
+
+  it("should match errors of a set", () => {
+    expect(notFound).toBeErrOf(UserError)
+    expect(timeout).not.toBeErrOf(UserError)
+  })
+
+  it("should match errors of a kind, optionally with data", () => {
+    expect(notFound).toBeErrKind(UserError.not_found)
+    expect(notFound).toBeErrKind(UserError.not_found, { id: "1" })
+    expect(notFound).toBeErrKind(UserError.not_found, {
+      id: expect.any(String),
+    })
+    expect(notFound).not.toBeErrKind(UserError.not_found, { id: "2" })
+    expect(notFound).not.toBeErrKind(UserError.invalid)
+  })
+
+  it("should match causes in the chain", () => {
+    expect(wrapped).toHaveCause(DbError.timeout)
+    expect(wrapped).not.toHaveCause(UserError)
+    expect(new Error("outer", { cause: timeout })).toHaveCause(DbError)
+    expect("boom").not.toHaveCause(DbError)
+  })
+
+  it("should work as asymmetric matchers", () => {
+    expect({ result: notFound }).toEqual({
+      result: expect.toBeErrKind(UserError.not_found),
+    })
+  })
+})
+
+describe("failure messages", () => {
+  it("should render received errors with the pretty format", () => {
+    const message = failure(() => expect(notFound).toBeOk())
+    expect(message).toContain("Expected: a success value")
+    expect(message).toContain("UserError.not_found - User 1 not found")
+  })
+
+  it("should describe negated expectations and sets", () => {
+    const message = failure(() => expect(notFound).not.toBeErrOf(UserError))
+    expect(message).toContain(
+      'Expected: not an error of the set with kinds "not_found", "invalid"'
+    )
+  })
+
+  it("should diff the data of the matching kind", () => {
+    const message = failure(() =>
+      expect(notFound).toBeErrKind(UserError.not_found, {
+        id: "2",
+        name: "John",
+      })
+    )
+    expect(message).toContain('kind "not_found" with data')
+    expect(message).toContain('- id: "2"\n+ id: "1"\n- name: "John"')
+  })
+
+  it("should list the causes that were searched", () => {
+    const message = failure(() => expect(wrapped).toHaveCause(UserError))
+    expect(message).toContain("1. DbError.timeout - Timed out after 50ms")
+    expect(failure(() => expect(notFound).toHaveCause(DbError))).toContain(
+      "Causes: none"
+    )
+    expect(failure(() => expect(1).toBeErr())).toContain("Received: 1")
+  })
+
+  it("should describe plain guards by name", () => {
+    const isTimeout = (value: unknown) => DbError.timeout(value)
+    expect(failure(() => expect(wrapped).not.toHaveCause(isTimeout))).toContain(
+      "guard isTimeout"
+    )
+    expect(
+      failure(() => expect(notFound).toBeErrKind(value => value === 1))
+    ).toContain("an error of guard")
+  })
+})
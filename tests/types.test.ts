@@ -4,7 +4,7 @@
  */
 
 import { describe, expect, it } from "bun:test"
-import { ERR, errorSet, isErr } from "../src/index.ts"
+import { ERR, type Err, errorSet, isErr } from "../src/index.ts"
 
 describe("ERR Symbol", () => {
   it("should be a unique symbol", () => {
@@ -59,7 +59,7 @@ describe("Err Type Structure", () => {
       { cause }
     )
     expect(err.cause).toBeDefined()
-    expect(err.cause?.kind).toBe("suspended")
+    expect((err.cause as Err).kind).toBe("suspended")
   })
 
   it("should not have cause when not provided", () => {